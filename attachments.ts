@@ -0,0 +1,173 @@
+import { arrayBufferToBase64 } from "obsidian";
+import {
+    GitHubApiError,
+    GitHubAuthError,
+    GitHubNotFoundError,
+    GitHubRateLimitError,
+    GitHubValidationError
+} from "./errors";
+import { mapOutsideCode } from "./markdown";
+import { hashContent } from "./sync";
+import type { AttachmentEmbed, AttachmentUploader, GitHubContentsUploaderOptions } from "./types";
+
+const GITHUB_REST_URL = 'https://api.github.com'
+
+// ![[file.png]], ![[file.png|alt or 300x200]], ignoring #heading / ^block suffixes
+const WIKI_EMBED = /!\[\[([^\]|#^]+)(?:[#^][^\]|]*)?(?:\|([^\]]*))?\]\]/g;
+// ![alt](path "title") and ![alt](<path with spaces>)
+const MARKDOWN_EMBED = /!\[([^\]]*)\]\(\s*(?:<([^>]+)>|([^)\s]+))(?:\s+"[^"]*")?\s*\)/g;
+// Embeds as the upload writes them: ![alt](url), [name](url) or <img src="url" alt="alt" width="300">
+const HOSTED_EMBED = /!?\[([^\]]*)\]\(\s*(https?:\/\/[^)\s]+)\s*\)|<img\s+src="([^"]+)"(?:\s+alt="([^"]*)")?(?:\s+width="(\d+)")?\s*\/?>/g;
+
+// Extensions GitHub renders inline; anything else is uploaded as a plain link
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'svg', 'webp', 'bmp', 'avif'];
+
+const SIZE = /^\d+(x\d+)?$/;
+
+/**
+ * Every embed in the body that points at a vault file rather than a URL,
+ * outside of code. Whether the target is an attachment or a note is up to
+ * the caller to resolve.
+ */
+export function findEmbeds(body: string): AttachmentEmbed[] {
+    const embeds: AttachmentEmbed[] = [];
+    mapOutsideCode(body, text => {
+        text.replace(WIKI_EMBED, (match, linkpath: string, option = '') => {
+            const size = SIZE.test(option.trim());
+            embeds.push({
+                text: match,
+                linkpath: linkpath.trim(),
+                alt: size ? '' : option.trim(),
+                width: size ? option.trim().split('x')[0] : undefined
+            });
+            return match;
+        });
+        text.replace(MARKDOWN_EMBED, (match, alt: string, bracketed?: string, bare?: string) => {
+            const path = bracketed ?? bare ?? '';
+            if (!/^[a-z][a-z0-9+.-]*:/i.test(path)) {
+                embeds.push({ text: match, linkpath: safeDecode(path), alt });
+            }
+            return match;
+        });
+        return text;
+    });
+    return embeds;
+}
+
+/**
+ * Rewrites embeds outside of code, leaving those `replace` returns undefined for.
+ */
+export function replaceEmbeds(body: string, replace: (embed: AttachmentEmbed) => string | undefined): string {
+    const embedsByText = new Map(findEmbeds(body).map(embed => [embed.text, embed]));
+    return mapOutsideCode(body, text => text.replace(new RegExp(`${WIKI_EMBED.source}|${MARKDOWN_EMBED.source}`, 'g'), match => {
+        const embed = embedsByText.get(match);
+        return (embed && replace(embed)) ?? match;
+    }));
+}
+
+/**
+ * Markdown for an embed whose file now lives at `url`. Images keep Obsidian's
+ * width option by becoming an `<img>` tag.
+ */
+export function hostedEmbed(embed: AttachmentEmbed, url: string, fileName: string): string {
+    const alt = embed.alt || fileName;
+    if (!IMAGE_EXTENSIONS.includes(fileName.split('.').pop()!.toLowerCase())) {
+        return `[${alt}](${url})`;
+    }
+    return embed.width ? `<img src="${url}" alt="${alt}" width="${embed.width}">` : `![${alt}](${url})`;
+}
+
+/**
+ * Reverse of `hostedEmbed`: links whose URL `lookup` recognises become
+ * wikilink embeds of the vault file again.
+ */
+export function replaceHostedEmbeds(body: string, lookup: (url: string) => string | undefined): string {
+    return mapOutsideCode(body, text => text.replace(HOSTED_EMBED, (match, mdAlt, mdUrl, imgUrl, imgAlt, width) => {
+        const target = lookup(mdUrl ?? imgUrl);
+        if (!target) return match;
+        const alt = mdAlt ?? imgAlt ?? '';
+        const option = width ?? (alt && alt !== target.split('/').pop() ? alt : '');
+        return option ? `![[${target}|${option}]]` : `![[${target}]]`;
+    }));
+}
+
+const safeDecode = (path: string) => {
+    try {
+        return decodeURI(path);
+    } catch (error) {
+        return path;
+    }
+}
+
+/**
+ * Uploads attachments into a folder of a GitHub repository through the REST
+ * contents API. Files are named after a hash of their content, so unchanged
+ * attachments are only uploaded once and never overwritten.
+ */
+export function githubContentsUploader(options: GitHubContentsUploaderOptions): AttachmentUploader {
+
+    const apiUrl = options.apiUrl ?? GITHUB_REST_URL;
+    const doFetch = options.fetch ?? ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+    const folder = options.folder.replace(/^\/+|\/+$/g, '');
+    const repoPath = `/repos/${options.repo.owner}/${options.repo.name}`;
+    let branch = options.branch;
+
+    const request = (path: string, init: RequestInit = {}) => doFetch(`${apiUrl}${path}`, {
+        ...init,
+        headers: {
+            'Accept': 'application/vnd.github+json',
+            'Authorization': `Bearer ${options.auth}`,
+            'Content-Type': 'application/json'
+        }
+    });
+
+    const restError = async (response: Response): Promise<GitHubApiError> => {
+        const message = `GitHub contents API error (${response.status}): ${await response.text()}`;
+        switch (response.status) {
+            case 401:
+                return new GitHubAuthError(message, response.status);
+            case 403:
+            case 429:
+                return response.headers.get('x-ratelimit-remaining') === '0' || response.headers.get('retry-after') !== null
+                    ? new GitHubRateLimitError(message, undefined, response.status)
+                    : new GitHubAuthError(message, response.status);
+            case 404:
+                return new GitHubNotFoundError(message, response.status);
+            case 422:
+                return new GitHubValidationError(message, response.status);
+            default:
+                return new GitHubApiError(message, response.status);
+        }
+    }
+
+    const resolveBranch = async (): Promise<string> => {
+        if (!branch) {
+            const response = await request(repoPath);
+            if (!response.ok) throw await restError(response);
+            branch = (await response.json()).default_branch as string;
+        }
+        return branch;
+    }
+
+    const upload = async (name: string, data: ArrayBuffer): Promise<string> => {
+        const ref = await resolveBranch();
+        const content = arrayBufferToBase64(data);
+        const fileName = `${hashContent(content)}-${name.replace(/[^\w.-]+/g, '-')}`;
+        const path = (folder ? `${folder}/${fileName}` : fileName).split('/').map(encodeURIComponent).join('/');
+
+        const existing = await request(`${repoPath}/contents/${path}?ref=${encodeURIComponent(ref)}`);
+        if (existing.ok) {
+            return (await existing.json()).download_url;
+        }
+        if (existing.status !== 404) throw await restError(existing);
+
+        const created = await request(`${repoPath}/contents/${path}`, {
+            method: 'PUT',
+            body: JSON.stringify({ message: `Upload ${name}`, content, branch: ref })
+        });
+        if (!created.ok) throw await restError(created);
+        return (await created.json()).content.download_url;
+    }
+
+    return { upload };
+}
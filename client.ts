@@ -1,50 +1,35 @@
-import { SEARCH_POSTS_QUERY } from "./graphql";
-import type { GitHubClientOptions, GitHubPostList, GitHubPost } from "./types";
+import { GET_COMMENT_REPLIES, GET_COMMENTS_FINGERPRINTS, GET_DISCUSSION_COMMENTS, SEARCH_POSTS_QUERY } from "./graphql";
+import type { GitHubClientOptions, GitHubComment, GitHubPostList, GitHubPost } from "./types";
+import { GitHubNotFoundError } from "./errors";
 import { githubMapper } from "./mapper";
-
-const GITHUB_API_URL : string = 'https://api.github.com/graphql'
+import { githubTransport } from "./transport";
 
 export function githubClient(options : GitHubClientOptions) {
 
+    if (!options.transport && !options.auth) throw new Error('GitHub authentication token is required');
+    const transport = options.transport ?? githubTransport({ auth: options.auth! });
+
     const getPosts = async  (limit = 50, after?: string, lastModified?: string): Promise<GitHubPostList>  => {
 
         // Build a query to search for blog post discussions
         // repo:... searches our specific repository
         // category:... limits the search to discussions with the blog post category
-        // -label:... excludes discussions with the draft label
+        // -label:... excludes discussions with the draft label, unless drafts are included
         // sort:updated-asc sorts the results by the updated date in ascending order (must be ascending to allow tracking of last modified date)
         // updated:>${lastModified} limits the search to discussions updated after the supplied lastModified date
-        const query = `repo:${options.repo.owner}/${options.repo.name} sort:updated-asc ${options.mappings!.blogPostCategory ? `category:"${options.mappings!.blogPostCategory}"` : ''} ${options.mappings!.draftLabel ? `-label:"${options.mappings!.draftLabel}"` : ''} ${lastModified ? `updated:>${lastModified}` : ''}`
-
-        const response = await fetch(GITHUB_API_URL,
-        {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${options.auth}`,
-                'User-Agent': 'Astro'
-            },
-            body: JSON.stringify({
-                query: SEARCH_POSTS_QUERY,
-                variables: {
-                    query,
-                    limit,
-                    after: after || null,
-                },
-            }),
-        });
+        const query = `repo:${options.repo.owner}/${options.repo.name} sort:updated-asc ${options.mappings!.blogPostCategory ? `category:"${options.mappings!.blogPostCategory}"` : ''} ${options.mappings!.draftLabel && !options.mappings!.includeDrafts ? `-label:"${options.mappings!.draftLabel}"` : ''} ${lastModified ? `updated:>${lastModified}` : ''}`
 
-        const { data } = await response.json();
+        const data = await transport.request(SEARCH_POSTS_QUERY, {
+            query,
+            limit,
+            after: after || null,
+        });
 
         const mapper = githubMapper(options.mappings!);
 
         return {
-            posts: mapper.mapPosts(data ?? []),
-            pageInfo: data?.search.pageInfo ?? {
-                startCursor: '',
-                endCursor: '',
-                hasNextPage: false,
-            }
+            posts: mapper.mapPosts(data),
+            pageInfo: data.search.pageInfo
         }
 
     }
@@ -57,9 +42,76 @@ export function githubClient(options : GitHubClientOptions) {
         return posts;
     }
 
+    const getRepliesRecursive = async (commentId: string, after: string): Promise<GitHubComment[]> => {
+        const data = await transport.request(GET_COMMENT_REPLIES, { id: commentId, after });
+        const { nodes, pageInfo } = data.node.replies;
+        const replies = nodes.map(githubMapper(options.mappings!).mapComment);
+        if (pageInfo.hasNextPage) {
+            return replies.concat(await getRepliesRecursive(commentId, pageInfo.endCursor));
+        }
+        return replies;
+    }
+
+    const getCommentsRecursive = async (discussionId: string, after?: string): Promise<GitHubComment[]> => {
+        const data = await transport.request(GET_DISCUSSION_COMMENTS, { id: discussionId, after: after || null });
+        const { nodes, pageInfo } = data.node.comments;
+        const mapper = githubMapper(options.mappings!);
+
+        const comments: GitHubComment[] = [];
+        for (const node of nodes) {
+            const comment = mapper.mapComment(node);
+            // The first page of replies comes with the comment, fetch the rest
+            if (node.replies.pageInfo.hasNextPage) {
+                comment.replies.push(...await getRepliesRecursive(node.id, node.replies.pageInfo.endCursor));
+            }
+            comments.push(comment);
+        }
+
+        if (pageInfo.hasNextPage) {
+            return comments.concat(await getCommentsRecursive(discussionId, pageInfo.endCursor));
+        }
+        return comments;
+    }
+
+    const getFingerprints = async (discussionIds: string[], fingerprints: Map<string, string>) => {
+        let data;
+        try {
+            data = await transport.request(GET_COMMENTS_FINGERPRINTS, { ids: discussionIds });
+        } catch (error) {
+            if (!(error instanceof GitHubNotFoundError)) throw error;
+            // One deleted discussion fails the whole lookup, so look the others up one by one
+            if (discussionIds.length > 1) {
+                for (const id of discussionIds) {
+                    await getFingerprints([id], fingerprints);
+                }
+            }
+            return;
+        }
+        const mapper = githubMapper(options.mappings!);
+        for (const node of data.nodes) {
+            if (node?.id) {
+                fingerprints.set(node.id, mapper.mapCommentsFingerprint(node.comments));
+            }
+        }
+    }
+
     return {
         getAllPosts: async (lastModified?: string): Promise<GitHubPost[]> => {
             return await getPostsRecursive(100, undefined, lastModified);
+        },
+        // Every comment on a discussion, oldest first, with all of its replies
+        getComments: async (discussionId: string): Promise<GitHubComment[]> => {
+            return await getCommentsRecursive(discussionId);
+        },
+        // The comments fingerprint of each discussion, as in `GitHubPost`, by ID.
+        // Discussions that no longer exist are left out.
+        getCommentsFingerprints: async (discussionIds: string[]): Promise<Map<string, string>> => {
+            const fingerprints = new Map<string, string>();
+            // GitHub looks up at most 100 nodes at a time
+            for (let i = 0; i < discussionIds.length; i += 100) {
+                await getFingerprints(discussionIds.slice(i, i + 100), fingerprints);
+            }
+            return fingerprints;
         }
     }
 }
@@ -0,0 +1,81 @@
+import type { GitHubComment } from "./types";
+
+// The comments section of a note sits between these markers, which Obsidian hides
+const SECTION_START = '%% ogd-comments %%';
+const SECTION_END = '%% /ogd-comments %%';
+const SECTION = /\r?\n%% ogd-comments %%[\s\S]*?%% \/ogd-comments %%[ \t]*(?:\r?\n)?/;
+
+const REACTIONS: Record<string, string> = {
+    THUMBS_UP: '👍',
+    THUMBS_DOWN: '👎',
+    LAUGH: '😄',
+    HOORAY: '🎉',
+    CONFUSED: '😕',
+    HEART: '❤️',
+    ROCKET: '🚀',
+    EYES: '👀',
+};
+
+const countComments = (comments: GitHubComment[]): number =>
+    comments.reduce((count, comment) => count + 1 + comment.replies.length, 0);
+
+const renderComment = (comment: GitHubComment, formatDate: (date: Date) => string): string[] => {
+    const header = [
+        comment.author ? `**[@${comment.author.username}](${comment.author.url})**` : '**ghost**',
+        `[${formatDate(comment.created)}](${comment.url})`
+    ];
+    if (comment.isAnswer) {
+        header.push('✅ Answer');
+    }
+    if (comment.reactions.length > 0) {
+        header.push(comment.reactions.map(reaction => `${REACTIONS[reaction.content] ?? reaction.content} ${reaction.count}`).join(' '));
+    }
+
+    // Like GitHub, hidden comments keep their place in the thread but not their text
+    const body = comment.minimized ? '_Hidden_' : comment.body.trim();
+    const lines = [header.join(' · '), '', ...body.split(/\r?\n/)];
+    for (const reply of comment.replies) {
+        lines.push('', ...renderComment(reply, formatDate).map(line => `> ${line}`.trimEnd()));
+    }
+    return lines;
+}
+
+/**
+ * Comments as Markdown, each with its author, a timestamp linking back to the
+ * comment on GitHub and its reactions, and its replies quoted underneath.
+ */
+export function renderComments(comments: GitHubComment[], formatDate: (date: Date) => string): string {
+    return comments.map(comment => renderComment(comment, formatDate).join('\n')).join('\n\n---\n\n');
+}
+
+/**
+ * Comments as a collapsed callout, for the end of a note.
+ */
+export function commentsCallout(comments: GitHubComment[], formatDate: (date: Date) => string): string {
+    const lines = renderComments(comments, formatDate).split('\n').map(line => `> ${line}`.trimEnd());
+    return [`> [!quote]- Comments (${countComments(comments)})`, ...lines].join('\n');
+}
+
+/**
+ * Body without the comments section, which is never uploaded.
+ */
+export function stripCommentsSection(body: string): string {
+    return body.replace(SECTION, '');
+}
+
+/**
+ * Body with its comments section replaced by `section`, or removed when there is none.
+ */
+export function withCommentsSection(body: string, section: string | undefined, eol = '\n'): string {
+    const base = stripCommentsSection(body);
+    if (!section) return base;
+    const separator = base.endsWith(eol) ? eol : eol + eol;
+    return `${base}${separator}${SECTION_START}${eol}${section.split('\n').join(eol)}${eol}${SECTION_END}${eol}`;
+}
+
+/**
+ * Path of the `<note>.comments.md` file next to a note.
+ */
+export function commentsFilePath(notePath: string): string {
+    return notePath.replace(/\.md$/, '.comments.md');
+}
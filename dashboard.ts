@@ -0,0 +1,153 @@
+import { DropdownComponent, ExtraButtonComponent, ItemView, SearchComponent, WorkspaceLeaf } from 'obsidian';
+import { SYNC_STATUS_LABELS } from './sync';
+import type { DashboardActions, DashboardRow } from './types';
+
+export const DASHBOARD_VIEW_TYPE = 'ogd-dashboard';
+
+const STATUS_LABELS = new Map(SYNC_STATUS_LABELS);
+
+/**
+ * Every post in the vault and on GitHub in one table, with its sync status,
+ * per-row upload, download and open actions, and filters by text and status.
+ */
+export class OGDDashboardView extends ItemView {
+	private rows: DashboardRow[] = [];
+	private query = '';
+	private status = '';
+	private tableEl: HTMLElement;
+	private summaryEl: HTMLElement;
+
+	constructor(leaf: WorkspaceLeaf, private actions: DashboardActions, private formatDate: (date: Date) => string) {
+		super(leaf);
+	}
+
+	getViewType(): string {
+		return DASHBOARD_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return 'Github Discussions';
+	}
+
+	getIcon(): string {
+		return 'layout-dashboard';
+	}
+
+	async onOpen() {
+		this.contentEl.empty();
+		this.contentEl.addClass('ogd-dashboard');
+
+		const toolbar = this.contentEl.createDiv({ cls: 'ogd-dashboard-toolbar' });
+		new SearchComponent(toolbar)
+			.setPlaceholder('Filter by blog, slug, title, tag or series')
+			.onChange(value => {
+				this.query = value.trim().toLowerCase();
+				this.renderTable();
+			});
+		const statusFilter = new DropdownComponent(toolbar).addOption('', 'All statuses');
+		for (const [status, label] of SYNC_STATUS_LABELS) {
+			statusFilter.addOption(status, label);
+		}
+		statusFilter.onChange(value => {
+			this.status = value;
+			this.renderTable();
+		});
+		new ExtraButtonComponent(toolbar)
+			.setIcon('refresh-cw')
+			.setTooltip('Refresh')
+			.onClick(() => this.refresh());
+
+		this.summaryEl = this.contentEl.createEl('p', { cls: 'ogd-status-detail' });
+		this.tableEl = this.contentEl.createDiv({ cls: 'ogd-dashboard-table' });
+		await this.refresh();
+	}
+
+	async refresh() {
+		this.summaryEl.setText('Loading…');
+		try {
+			this.rows = await this.actions.load();
+		} catch (error) {
+			this.rows = [];
+			this.summaryEl.setText(`Could not load posts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+			this.tableEl.empty();
+			return;
+		}
+		this.renderTable();
+	}
+
+	/**
+	 * Replaces the rows of the given posts and drops the `removed` ones, leaving
+	 * every other row as it was loaded.
+	 */
+	update(rows: DashboardRow[], removed: DashboardRow[] = []) {
+		const id = (row: DashboardRow) => `${row.profile}/${row.key}`;
+		const changed = new Map(rows.map(row => [id(row), row]));
+		const gone = new Set(removed.map(id));
+		const kept = this.rows.filter(row => !gone.has(id(row))).map(row => changed.get(id(row)) ?? row);
+		const known = new Set(kept.map(id));
+		this.rows = kept.concat(rows.filter(row => !known.has(id(row))));
+		// Not rendered until the view is first opened
+		if (this.tableEl) {
+			this.renderTable();
+		}
+	}
+
+	private matches(row: DashboardRow): boolean {
+		if (this.status && row.status !== this.status) return false;
+		if (!this.query) return true;
+		return [row.profile, row.slug, row.title, row.series ?? '', ...row.tags].some(text => text.toLowerCase().includes(this.query));
+	}
+
+	private renderTable() {
+		const rows = this.rows.filter(row => this.matches(row));
+		this.summaryEl.setText(`${rows.length} of ${this.rows.length} posts`);
+		this.tableEl.empty();
+
+		// The blog column only matters with more than one profile
+		const showProfile = new Set(this.rows.map(row => row.profile)).size > 1;
+		const table = this.tableEl.createEl('table');
+		const header = table.createEl('tr');
+		for (const heading of [...(showProfile ? ['Blog'] : []), 'Slug', 'Title', 'Modified in vault', 'Updated on Github', 'Status', 'Tags', 'Series', '#', '']) {
+			header.createEl('th', { text: heading });
+		}
+
+		for (const row of rows) {
+			const tr = table.createEl('tr', { cls: `ogd-dashboard-${row.status}` });
+			if (showProfile) {
+				tr.createEl('td', { text: row.profile });
+			}
+			tr.createEl('td', { text: row.slug });
+			tr.createEl('td', { text: row.title });
+			tr.createEl('td', { text: row.localModified ? this.formatDate(row.localModified) : '' });
+			tr.createEl('td', { text: row.remoteUpdated ? this.formatDate(row.remoteUpdated) : '' });
+			tr.createEl('td', { text: STATUS_LABELS.get(row.status) ?? row.status, cls: 'ogd-dashboard-status' });
+			tr.createEl('td', { text: row.tags.join(', ') });
+			tr.createEl('td', { text: row.series ?? '' });
+			tr.createEl('td', { text: row.discussionNumber ? String(row.discussionNumber) : '' });
+			this.renderActions(tr.createEl('td', { cls: 'ogd-dashboard-actions' }), row);
+		}
+	}
+
+	private renderActions(cell: HTMLElement, row: DashboardRow) {
+		if (row.path) {
+			new ExtraButtonComponent(cell)
+				.setIcon('arrow-up')
+				.setTooltip('Upload to Github')
+				.onClick(() => this.actions.upload(row));
+			new ExtraButtonComponent(cell)
+				.setIcon('file-text')
+				.setTooltip('Open note')
+				.onClick(() => this.actions.openNote(row));
+		}
+		if (row.url) {
+			new ExtraButtonComponent(cell)
+				.setIcon('arrow-down')
+				.setTooltip('Download from Github')
+				.onClick(() => this.actions.download(row));
+			new ExtraButtonComponent(cell)
+				.setIcon('external-link')
+				.setTooltip('Open discussion on Github')
+				.onClick(() => this.actions.openDiscussion(row));
+		}
+	}
+}
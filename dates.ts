@@ -0,0 +1,73 @@
+import { moment } from "obsidian";
+import type { FieldTransform } from "./types";
+
+export const ISO_8601_FORMAT = 'YYYY-MM-DDTHH:mm:ssZ';
+
+// Shapes accepted on input in addition to the configured format, tried in order
+const COMMON_FORMATS = [
+    'YYYY-MM-DD',
+    'MM/DD/YYYY',
+    'M/D/YYYY',
+    'YYYY/MM/DD',
+    'DD.MM.YYYY',
+    'YYYY-MM-DD HH:mm',
+    'YYYY-MM-DD HH:mm:ss',
+    'MMMM D, YYYY',
+    'MMM D, YYYY',
+    'D MMMM YYYY',
+];
+
+/**
+ * Parses a frontmatter date leniently: the preferred format first, then ISO-8601
+ * (keeping its time zone offset), then a list of common shapes. YAML-native dates
+ * arrive as `Date` objects at midnight UTC and are read in UTC so the day does not
+ * shift with the local time zone.
+ */
+export function parseDate(value: unknown, preferredFormat: string): moment.Moment | null {
+    if (value instanceof Date) {
+        const parsed = moment.utc(value);
+        return parsed.isValid() ? parsed : null;
+    }
+    if (typeof value !== 'string' || value.trim() === '') {
+        return null;
+    }
+
+    const text = value.trim();
+    const preferred = moment(text, preferredFormat, true);
+    if (preferred.isValid()) return preferred;
+
+    const iso = moment.parseZone(text, moment.ISO_8601, true);
+    if (iso.isValid()) return iso;
+
+    for (const format of COMMON_FORMATS) {
+        const parsed = moment(text, format, true);
+        if (parsed.isValid()) return parsed;
+    }
+    return null;
+}
+
+/**
+ * Field transform converting dates between the vault's and GitHub's format.
+ * Empty values are dropped; anything that cannot be parsed throws on upload and
+ * is kept as written on download.
+ */
+export function dateTransform(localFormat: string, remoteFormat: string): FieldTransform {
+    const convert = (value: unknown, from: string, to: string) => {
+        if (value === null || value === undefined || value === '') return undefined;
+        const parsed = parseDate(value, from);
+        if (!parsed) throw new Error(`"${value}" is not a recognised date, expected ${from}`);
+        return parsed.format(to);
+    }
+
+    return {
+        toRemote: (value) => convert(value, localFormat, remoteFormat),
+        toLocal: (value) => {
+            try {
+                return convert(value, remoteFormat, localFormat);
+            } catch (error) {
+                console.warn('OGD: keeping unrecognised date from Github as written', value);
+                return value;
+            }
+        }
+    };
+}
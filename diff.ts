@@ -0,0 +1,125 @@
+import type { DiffOp, DiffRow, FieldDiff } from "./types";
+
+/**
+ * Line diff of two documents using a longest-common-subsequence table.
+ * Common leading and trailing lines are trimmed first so that the table
+ * only covers the region that actually changed.
+ */
+export function diffLines(from: string, to: string): DiffOp[] {
+    // GitHub hands bodies back with CRLF line endings, which should not count as a change
+    const a = from === '' ? [] : from.split(/\r?\n/);
+    const b = to === '' ? [] : to.split(/\r?\n/);
+
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+
+    const ops: DiffOp[] = a.slice(0, start).map(text => ({ type: 'equal', text }));
+
+    const n = endA - start;
+    const m = endB - start;
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lcs[i * (m + 1) + j] = a[start + i] === b[start + j]
+                ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+                : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+        }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+        if (i < n && j < m && a[start + i] === b[start + j]) {
+            ops.push({ type: 'equal', text: a[start + i] });
+            i++;
+            j++;
+        } else if (j < m && (i === n || lcs[i * (m + 1) + j + 1] >= lcs[(i + 1) * (m + 1) + j])) {
+            ops.push({ type: 'added', text: b[start + j] });
+            j++;
+        } else {
+            ops.push({ type: 'removed', text: a[start + i] });
+            i++;
+        }
+    }
+
+    return ops.concat(a.slice(endA).map(text => ({ type: 'equal', text })));
+}
+
+/**
+ * Lays a line diff out as left/right rows, pairing each run of removed lines
+ * with the run of added lines that follows it. Unchanged stretches longer than
+ * twice the context are collapsed into a single `skip` row.
+ */
+export function sideBySide(ops: DiffOp[], context = 3): DiffRow[] {
+    const rows: DiffRow[] = [];
+    let k = 0;
+    while (k < ops.length) {
+        if (ops[k].type === 'equal') {
+            rows.push({ type: 'equal', left: ops[k].text, right: ops[k].text });
+            k++;
+            continue;
+        }
+        const removed: string[] = [];
+        const added: string[] = [];
+        while (k < ops.length && ops[k].type === 'removed') removed.push(ops[k++].text);
+        while (k < ops.length && ops[k].type === 'added') added.push(ops[k++].text);
+        for (let r = 0; r < Math.max(removed.length, added.length); r++) {
+            rows.push({
+                type: r >= added.length ? 'removed' : r >= removed.length ? 'added' : 'changed',
+                left: removed[r],
+                right: added[r]
+            });
+        }
+    }
+
+    const collapsed: DiffRow[] = [];
+    let run: DiffRow[] = [];
+    const flush = (leading: boolean, trailing: boolean) => {
+        const keepStart = leading ? 0 : context;
+        const keepEnd = trailing ? 0 : context;
+        if (run.length > keepStart + keepEnd) {
+            collapsed.push(...run.slice(0, keepStart));
+            collapsed.push({ type: 'skip', skipped: run.length - keepStart - keepEnd });
+            collapsed.push(...run.slice(run.length - keepEnd));
+        } else {
+            collapsed.push(...run);
+        }
+        run = [];
+    };
+    for (const row of rows) {
+        if (row.type === 'equal') {
+            run.push(row);
+        } else {
+            flush(collapsed.length === 0, false);
+            collapsed.push(row);
+        }
+    }
+    flush(collapsed.length === 0, true);
+
+    return collapsed;
+}
+
+/**
+ * Compares the given frontmatter fields of the vault note and the discussion.
+ */
+export function diffFields(fields: string[], local: Record<string, unknown>, remote: Record<string, unknown>): FieldDiff[] {
+    return fields.map(field => {
+        const localValue = formatValue(local[field]);
+        const remoteValue = formatValue(remote[field]);
+        return { field, local: localValue, remote: remoteValue, changed: localValue !== remoteValue };
+    });
+}
+
+const formatValue = (value: unknown): string => {
+    if (value === undefined || value === null) return '';
+    if (Array.isArray(value)) return value.map(formatValue).join(', ');
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+}
@@ -0,0 +1,42 @@
+/**
+ * Base class for every failure reported by the GitHub API. `status` is the HTTP
+ * status of the response, `type` the GraphQL error type when there was one.
+ */
+export class GitHubApiError extends Error {
+    constructor(message: string, public status?: number, public type?: string) {
+        super(message);
+        this.name = 'GitHubApiError';
+    }
+}
+
+/** The token is missing, invalid, or lacks the scopes the operation needs. */
+export class GitHubAuthError extends GitHubApiError {
+    constructor(message: string, status?: number, type?: string) {
+        super(message, status, type);
+        this.name = 'GitHubAuthError';
+    }
+}
+
+/** The repository, discussion or other node does not exist or is not visible to the token. */
+export class GitHubNotFoundError extends GitHubApiError {
+    constructor(message: string, status?: number, type?: string) {
+        super(message, status, type);
+        this.name = 'GitHubNotFoundError';
+    }
+}
+
+/** The primary or secondary rate limit was hit and could not be waited out. */
+export class GitHubRateLimitError extends GitHubApiError {
+    constructor(message: string, public resetAt?: Date, status?: number, type?: string) {
+        super(message, status, type);
+        this.name = 'GitHubRateLimitError';
+    }
+}
+
+/** GitHub rejected the query or its input, e.g. an unknown field or an invalid label name. */
+export class GitHubValidationError extends GitHubApiError {
+    constructor(message: string, status?: number, type?: string) {
+        super(message, status, type);
+        this.name = 'GitHubValidationError';
+    }
+}
@@ -0,0 +1,85 @@
+import type { FieldMapping, FieldTransform } from "./types";
+
+// Keys the plugin manages itself; they are never copied as ordinary fields
+export const RESERVED_FIELDS = ['slug', 'draft', 'tags', 'series', 'seriesOrder', 'category', 'githubDiscussionId', 'githubDiscussionNumber', 'githubUrl'];
+
+export const DEFAULT_FIELD_MAPPINGS: FieldMapping[] = [
+    { local: 'description', remote: 'description', target: 'frontmatter' },
+    { local: 'published', remote: 'published', target: 'frontmatter' },
+];
+
+/**
+ * Translates frontmatter between a note and its discussion according to the
+ * configured field mappings. `frontmatter` mappings are copied (and renamed) into
+ * the discussion frontmatter, `label` mappings become labels named
+ * `<remote prefix><value>`, and `local` mappings never leave the vault. Keys that
+ * are not mapped at all are copied under the same name when `syncUnmapped` is set.
+ */
+export function fieldMapper(mappings: FieldMapping[], syncUnmapped: boolean, transforms: Record<string, FieldTransform> = {}) {
+
+    const mapped = new Set(mappings.map(mapping => mapping.local));
+    const remoteKeys = new Set(mappings.filter(mapping => mapping.target === 'frontmatter').map(mapping => mapping.remote));
+
+    const toRemote = (local: Record<string, any>): Record<string, any> => {
+        const remote: Record<string, any> = {};
+        for (const mapping of mappings) {
+            if (mapping.target !== 'frontmatter' || local[mapping.local] === undefined) continue;
+            const transform = transforms[mapping.local];
+            try {
+                remote[mapping.remote] = transform ? transform.toRemote(local[mapping.local]) : local[mapping.local];
+            } catch (error) {
+                throw new Error(`${mapping.local}: ${error instanceof Error ? error.message : error}`);
+            }
+        }
+        if (syncUnmapped) {
+            for (const [key, value] of Object.entries(local)) {
+                if (!mapped.has(key) && !RESERVED_FIELDS.includes(key) && !(key in remote)) {
+                    remote[key] = value;
+                }
+            }
+        }
+        return remote;
+    }
+
+    const toLocal = (remote: Record<string, any>, labels: string[]): Record<string, any> => {
+        const local: Record<string, any> = {};
+        for (const mapping of mappings) {
+            if (mapping.target === 'frontmatter' && remote[mapping.remote] !== undefined) {
+                const transform = transforms[mapping.local];
+                local[mapping.local] = transform ? transform.toLocal(remote[mapping.remote]) : remote[mapping.remote];
+            } else if (mapping.target === 'label') {
+                const values = labels
+                    .filter(label => label.startsWith(mapping.remote))
+                    .map(label => label.slice(mapping.remote.length));
+                if (values.length > 0) {
+                    local[mapping.local] = values.length === 1 ? values[0] : values;
+                }
+            }
+        }
+        if (syncUnmapped) {
+            for (const [key, value] of Object.entries(remote)) {
+                if (!remoteKeys.has(key) && !mapped.has(key) && !RESERVED_FIELDS.includes(key)) {
+                    local[key] = value;
+                }
+            }
+        }
+        return local;
+    }
+
+    const labelsFor = (local: Record<string, any>): string[] => {
+        const labels: string[] = [];
+        for (const mapping of mappings) {
+            if (mapping.target !== 'label' || local[mapping.local] === undefined || local[mapping.local] === null) continue;
+            const values = Array.isArray(local[mapping.local]) ? local[mapping.local] : [local[mapping.local]];
+            labels.push(...values.map((value: unknown) => `${mapping.remote}${value}`));
+        }
+        return labels;
+    }
+
+    const labelPrefixes = (): string[] => mappings.filter(mapping => mapping.target === 'label').map(mapping => mapping.remote);
+
+    // Local keys that take part in the sync, in mapping order
+    const syncedFields = (): string[] => mappings.filter(mapping => mapping.target !== 'local').map(mapping => mapping.local);
+
+    return { toRemote, toLocal, labelsFor, labelPrefixes, syncedFields };
+}
@@ -0,0 +1,90 @@
+import { parseYaml, stringifyYaml } from "obsidian";
+import type { FrontMatterDocument } from "./types";
+
+// Opening `---` on the very first line (after an optional BOM), then the YAML up to
+// the first line that is exactly `---` or `...`. Anything after that line's
+// newline is the body, untouched.
+const FRONT_MATTER = /^(\uFEFF?---[ \t]*(\r?\n))((?:[\s\S]*?\r?\n)??)(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Splits a note or discussion body into its leading YAML frontmatter and body.
+ *
+ * Documents without a leading YAML block have an empty frontmatter and the whole
+ * text as body. `stringifyFrontMatter(doc)` on an unmodified document returns the
+ * original text byte for byte.
+ */
+export function parseFrontMatter(content: string): FrontMatterDocument {
+    const match = FRONT_MATTER.exec(content);
+    if (!match) {
+        return { hasFrontMatter: false, frontMatter: {}, yaml: '', body: content, eol: content.includes('\r\n') ? '\r\n' : '\n', raw: '' };
+    }
+
+    const yaml = match[3];
+    let frontMatter: unknown;
+    try {
+        frontMatter = yaml.trim() === '' ? {} : parseYaml(yaml);
+    } catch (error) {
+        throw new Error(`Invalid YAML frontmatter: ${error instanceof Error ? error.message : error}`);
+    }
+    if (frontMatter === null || frontMatter === undefined) {
+        frontMatter = {};
+    }
+    if (typeof frontMatter !== 'object' || Array.isArray(frontMatter)) {
+        throw new Error('Frontmatter must be a YAML mapping of keys to values');
+    }
+
+    return {
+        hasFrontMatter: true,
+        frontMatter: frontMatter as Record<string, any>,
+        yaml,
+        body: content.slice(match[0].length),
+        eol: match[2],
+        raw: match[0]
+    };
+}
+
+/**
+ * Joins frontmatter and body back into a document. When given a parsed document
+ * whose frontmatter is unchanged the original YAML is kept as written, so
+ * comments, quoting and key order survive.
+ */
+export function stringifyFrontMatter(doc: FrontMatterDocument): string;
+export function stringifyFrontMatter(frontMatter: Record<string, unknown>, body: string, eol?: string): string;
+export function stringifyFrontMatter(docOrFrontMatter: FrontMatterDocument | Record<string, unknown>, body?: string, eol = '\n'): string {
+    if (body === undefined) {
+        const doc = docOrFrontMatter as FrontMatterDocument;
+        return doc.raw + doc.body;
+    }
+
+    const frontMatter = docOrFrontMatter as Record<string, unknown>;
+    const defined = Object.fromEntries(Object.entries(frontMatter).filter(([, value]) => value !== undefined));
+    const yaml = Object.keys(defined).length === 0 ? '' : stringifyYaml(defined).replace(/\r?\n/g, eol);
+    return `---${eol}${yaml}---${eol}${body}`;
+}
+
+/**
+ * Applies `update` to a copy of the document's frontmatter and re-serialises it,
+ * keeping the original text when the update changes nothing. A leading BOM stays
+ * in front of the frontmatter.
+ */
+export function updateFrontMatter(content: string, update: (frontMatter: Record<string, any>) => void): string {
+    const doc = parseFrontMatter(content);
+    const frontMatter = clone(doc.frontMatter);
+    update(frontMatter);
+    if (doc.hasFrontMatter && JSON.stringify(frontMatter) === JSON.stringify(doc.frontMatter)) {
+        return content;
+    }
+    const bom = content.startsWith('\uFEFF') ? '\uFEFF' : '';
+    // Without frontmatter the BOM is still at the start of the body
+    const body = doc.hasFrontMatter ? doc.body : doc.body.slice(bom.length);
+    return bom + stringifyFrontMatter(frontMatter, body, doc.eol);
+}
+
+const clone = <T>(value: T): T => {
+    if (Array.isArray(value)) return value.map(clone) as T;
+    if (value instanceof Date) return new Date(value.getTime()) as T;
+    if (value !== null && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, clone(item)])) as T;
+    }
+    return value;
+}
@@ -1,5 +1,39 @@
+// What changes when a discussion gets new comments or replies, or when the newest
+// of them are edited, reacted to, hidden or marked as the answer. None of these
+// change the discussion's own update time.
+const COMMENTS_FINGERPRINT_FIELDS = `
+  comments(last: 10) {
+    totalCount
+    nodes {
+      updatedAt
+      isAnswer
+      isMinimized
+      reactions {
+        totalCount
+      }
+      replies(last: 10) {
+        totalCount
+        nodes {
+          updatedAt
+          isMinimized
+          reactions {
+            totalCount
+          }
+        }
+      }
+    }
+  }
+`;
+
 export const SEARCH_POSTS_QUERY : string = `
   query ($query: String!, $limit: Int!, $after: String) {
+    rateLimit {
+      limit
+      cost
+      remaining
+      used
+      resetAt
+    }
     search(query: $query, type: DISCUSSION, first: $limit, after: $after) {
       pageInfo {
         startCursor
@@ -17,6 +51,8 @@ export const SEARCH_POSTS_QUERY : string = `
             body
             createdAt
             updatedAt
+            closed
+            locked
             category {
                 id
                 name
@@ -27,7 +63,7 @@ export const SEARCH_POSTS_QUERY : string = `
               login
               url
             }
-            labels(first: 10) {
+            labels(first: 50) {
               edges {
                 node {
                   id
@@ -36,6 +72,7 @@ export const SEARCH_POSTS_QUERY : string = `
                 }
               }
             }
+            ${COMMENTS_FINGERPRINT_FIELDS}
           }
         }
       }
@@ -54,21 +91,26 @@ export const CREATE_DISCUSSION_MUTATION = `
       discussion {
         id
         number
+        url
+        updatedAt
       }
     }
   }
 `;
 
 export const UPDATE_DISCUSSION_MUTATION = `
-  mutation UpdateDiscussion($discussionId: ID!, $title: String!, $body: String!) {
+  mutation UpdateDiscussion($discussionId: ID!, $title: String!, $body: String!, $categoryId: ID) {
     updateDiscussion(input: {
       discussionId: $discussionId,
       title: $title,
-      body: $body
+      body: $body,
+      categoryId: $categoryId
     }) {
       discussion {
         id
         number
+        url
+        updatedAt
       }
     }
   }
@@ -103,6 +145,9 @@ export const ADD_LABELS_TO_DISCUSSION = `
             name
           }
         }
+        ... on Discussion {
+          updatedAt
+        }
       }
     }
   }
@@ -110,6 +155,16 @@ export const ADD_LABELS_TO_DISCUSSION = `
 
 export const GET_REPOSITORY_INFO = `
   query GetRepositoryInfo($owner: String!, $name: String!) {
+    rateLimit {
+      limit
+      cost
+      remaining
+      used
+      resetAt
+    }
+    viewer {
+      login
+    }
     repository(owner: $owner, name: $name) {
       id
       discussionCategories(first: 100) {
@@ -118,12 +173,279 @@ export const GET_REPOSITORY_INFO = `
           name
         }
       }
-      labels(first: 100) {
+    }
+  }
+`;
+
+export const GET_REPOSITORY_LABELS = `
+  query GetRepositoryLabels($owner: String!, $name: String!, $after: String) {
+    repository(owner: $owner, name: $name) {
+      id
+      labels(first: 100, after: $after) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
         nodes {
           id
           name
+          color
+          description
+          issues {
+            totalCount
+          }
+          pullRequests {
+            totalCount
+          }
+        }
+      }
+    }
+  }
+`;
+
+export const GET_DISCUSSION_LABEL_USAGE = `
+  query GetDiscussionLabelUsage($owner: String!, $name: String!, $after: String) {
+    repository(owner: $owner, name: $name) {
+      discussions(first: 100, after: $after) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        nodes {
+          labels(first: 100) {
+            nodes {
+              name
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+export const UPDATE_LABEL_MUTATION = `
+  mutation UpdateLabel($id: ID!, $color: String, $description: String) {
+    updateLabel(input: {
+      id: $id,
+      color: $color,
+      description: $description
+    }) {
+      label {
+        id
+        name
+      }
+    }
+  }
+`;
+
+export const DELETE_LABEL_MUTATION = `
+  mutation DeleteLabel($id: ID!) {
+    deleteLabel(input: {
+      id: $id
+    }) {
+      clientMutationId
+    }
+  }
+`;
+
+export const GET_DISCUSSION_LABELS = `
+  query GetDiscussionLabels($id: ID!) {
+    node(id: $id) {
+      ... on Discussion {
+        title
+        labels(first: 100) {
+          nodes {
+            id
+            name
+          }
+        }
+      }
+    }
+  }
+`;
+
+export const REMOVE_LABELS_FROM_DISCUSSION = `
+  mutation RemoveLabelsFromDiscussion($labelableId: ID!, $labelIds: [ID!]!) {
+    removeLabelsFromLabelable(input: {
+      labelableId: $labelableId,
+      labelIds: $labelIds
+    }) {
+      labelable {
+        ... on Discussion {
+          updatedAt
+        }
+      }
+    }
+  }
+`;
+
+export const GET_DISCUSSION = `
+  query GetDiscussion($id: ID!) {
+    node(id: $id) {
+      ... on Discussion {
+        id
+        url
+        updatedAt
+      }
+    }
+  }
+`;
+
+export const CLOSE_DISCUSSION_MUTATION = `
+  mutation CloseDiscussion($discussionId: ID!) {
+    closeDiscussion(input: {
+      discussionId: $discussionId,
+      reason: OUTDATED
+    }) {
+      discussion {
+        id
+        updatedAt
+      }
+    }
+  }
+`;
+
+export const LOCK_DISCUSSION_MUTATION = `
+  mutation LockDiscussion($lockableId: ID!) {
+    lockLockable(input: {
+      lockableId: $lockableId
+    }) {
+      lockedRecord {
+        ... on Discussion {
+          id
+          updatedAt
         }
       }
     }
   }
 `;
+
+export const DELETE_DISCUSSION_MUTATION = `
+  mutation DeleteDiscussion($id: ID!) {
+    deleteDiscussion(input: {
+      id: $id
+    }) {
+      discussion {
+        id
+      }
+    }
+  }
+`;
+
+const COMMENT_FIELDS = `
+  id
+  url
+  body
+  createdAt
+  isAnswer
+  isMinimized
+  viewerCanMarkAsAnswer
+  viewerCanMinimize
+  author {
+    avatarUrl
+    login
+    url
+  }
+  reactionGroups {
+    content
+    reactors {
+      totalCount
+    }
+  }
+`;
+
+export const GET_DISCUSSION_COMMENTS = `
+  query GetDiscussionComments($id: ID!, $after: String) {
+    node(id: $id) {
+      ... on Discussion {
+        comments(first: 50, after: $after) {
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          nodes {
+            ${COMMENT_FIELDS}
+            replies(first: 50) {
+              pageInfo {
+                hasNextPage
+                endCursor
+              }
+              nodes {
+                ${COMMENT_FIELDS}
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+export const GET_COMMENTS_FINGERPRINTS = `
+  query GetCommentsFingerprints($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on Discussion {
+        id
+        ${COMMENTS_FINGERPRINT_FIELDS}
+      }
+    }
+  }
+`;
+
+export const GET_COMMENT_REPLIES = `
+  query GetCommentReplies($id: ID!, $after: String) {
+    node(id: $id) {
+      ... on DiscussionComment {
+        replies(first: 100, after: $after) {
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          nodes {
+            ${COMMENT_FIELDS}
+          }
+        }
+      }
+    }
+  }
+`;
+
+export const ADD_DISCUSSION_COMMENT_MUTATION = `
+  mutation AddDiscussionComment($discussionId: ID!, $body: String!, $replyToId: ID) {
+    addDiscussionComment(input: {
+      discussionId: $discussionId,
+      body: $body,
+      replyToId: $replyToId
+    }) {
+      comment {
+        id
+        url
+      }
+    }
+  }
+`;
+
+export const MARK_COMMENT_AS_ANSWER_MUTATION = `
+  mutation MarkDiscussionCommentAsAnswer($id: ID!) {
+    markDiscussionCommentAsAnswer(input: {
+      id: $id
+    }) {
+      discussion {
+        id
+      }
+    }
+  }
+`;
+
+export const MINIMIZE_COMMENT_MUTATION = `
+  mutation MinimizeComment($subjectId: ID!) {
+    minimizeComment(input: {
+      subjectId: $subjectId,
+      classifier: SPAM
+    }) {
+      minimizedComment {
+        isMinimized
+      }
+    }
+  }
+`;
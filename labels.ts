@@ -0,0 +1,148 @@
+import {
+    CREATE_LABEL_MUTATION,
+    DELETE_LABEL_MUTATION,
+    GET_DISCUSSION_LABEL_USAGE,
+    GET_REPOSITORY_LABELS,
+    UPDATE_LABEL_MUTATION
+} from "./graphql";
+import type { GitHubLabel, GitHubLabelManagerOptions, LabelManager, LabelStyle } from "./types";
+
+const DEFAULT_LABEL_COLOR = '666666';
+
+type LabelNode = GitHubLabel & {
+    issues: { totalCount: number }
+    pullRequests: { totalCount: number }
+};
+
+/**
+ * Style of a label: the one with the longest prefix it starts with, with
+ * `{name}` in the description filled in. Undefined when no prefix matches.
+ */
+function labelStyle(styles: LabelStyle[], name: string): { color: string, description: string } | undefined {
+    const style = styles
+        .filter(style => style.prefix !== '' && name.startsWith(style.prefix))
+        .sort((a, b) => b.prefix.length - a.prefix.length)[0];
+    if (!style) return undefined;
+    return {
+        color: style.color.replace(/^#/, '') || DEFAULT_LABEL_COLOR,
+        description: style.description.replace(/\{name\}/g, name.slice(style.prefix.length))
+    };
+}
+
+/**
+ * Labels of one repository. Every page of labels is fetched once and kept up to
+ * date as labels are created, so a manager lives for a single sync.
+ */
+export function githubLabelManager(options: GitHubLabelManagerOptions): LabelManager {
+
+    const { transport, repo, styles } = options;
+    let repositoryId: string;
+    let cache: Promise<LabelNode[]> | undefined;
+
+    const fetchLabels = async (after?: string): Promise<LabelNode[]> => {
+        const data = await transport.request(GET_REPOSITORY_LABELS, { owner: repo.owner, name: repo.name, after: after ?? null });
+        const { nodes, pageInfo } = data.repository.labels;
+        repositoryId = data.repository.id;
+        const labels: LabelNode[] = nodes.map((node: LabelNode) => ({ ...node, description: node.description ?? '' }));
+        if (pageInfo.hasNextPage) {
+            return labels.concat(await fetchLabels(pageInfo.endCursor));
+        }
+        return labels;
+    }
+
+    const allLabels = (): Promise<LabelNode[]> => {
+        if (!cache) {
+            cache = fetchLabels();
+            // Let a failed fetch be retried
+            cache.catch(() => {
+                cache = undefined;
+            });
+        }
+        return cache;
+    }
+
+    const discussionLabels = async (after?: string): Promise<Set<string>> => {
+        const data = await transport.request(GET_DISCUSSION_LABEL_USAGE, { owner: repo.owner, name: repo.name, after: after ?? null });
+        const { nodes, pageInfo } = data.repository.discussions;
+        const used = new Set<string>(nodes.flatMap((node: any) => node.labels.nodes.map((label: any) => label.name)));
+        if (pageInfo.hasNextPage) {
+            (await discussionLabels(pageInfo.endCursor)).forEach(name => used.add(name));
+        }
+        return used;
+    }
+
+    return {
+        labels: async (): Promise<GitHubLabel[]> => {
+            return (await allLabels()).map(({ id, name, color, description }) => ({ id, name, color, description }));
+        },
+        ensure: async (names: string[]): Promise<Map<string, string>> => {
+            const labels = await allLabels();
+            const labelIds = new Map<string, string>();
+
+            for (const name of names) {
+                const style = labelStyle(styles, name);
+                // GitHub matches label names case-insensitively
+                const existing = labels.find(label => label.name.toLowerCase() === name.toLowerCase());
+                if (existing) {
+                    // Labels without a style keep whatever they were given on GitHub, and
+                    // descriptions edited there are kept; only empty ones are filled in
+                    if (!style) {
+                        labelIds.set(name, existing.id);
+                        continue;
+                    }
+                    const description = existing.description || style.description;
+                    if (existing.color.toLowerCase() !== style.color.toLowerCase() || description !== existing.description) {
+                        await transport.request(UPDATE_LABEL_MUTATION, { id: existing.id, color: style.color, description });
+                        existing.color = style.color;
+                        existing.description = description;
+                    }
+                    labelIds.set(name, existing.id);
+                    continue;
+                }
+
+                const { color, description } = style ?? { color: DEFAULT_LABEL_COLOR, description: '' };
+                const result = await transport.request(CREATE_LABEL_MUTATION, {
+                    repositoryId,
+                    name,
+                    description: description || undefined,
+                    color
+                });
+                const id = result.createLabel.label.id;
+                labels.push({ id, name, color, description, issues: { totalCount: 0 }, pullRequests: { totalCount: 0 } });
+                labelIds.set(name, id);
+            }
+
+            return labelIds;
+        },
+        unused: async (prefixes: string[]): Promise<GitHubLabel[]> => {
+            const candidates = (await allLabels()).filter(label =>
+                prefixes.some(prefix => prefix !== '' && label.name.startsWith(prefix))
+                && label.issues.totalCount === 0 && label.pullRequests.totalCount === 0);
+            if (candidates.length === 0) return [];
+            const used = await discussionLabels();
+            return candidates
+                .filter(label => !used.has(label.name))
+                .map(({ id, name, color, description }) => ({ id, name, color, description }));
+        },
+        describe: async (name: string, description: string): Promise<void> => {
+            const labels = await allLabels();
+            const existing = labels.find(label => label.name.toLowerCase() === name.toLowerCase());
+            if (existing) {
+                await transport.request(UPDATE_LABEL_MUTATION, { id: existing.id, color: existing.color, description });
+                existing.description = description;
+                return;
+            }
+            const { color } = labelStyle(styles, name) ?? { color: DEFAULT_LABEL_COLOR };
+            const result = await transport.request(CREATE_LABEL_MUTATION, { repositoryId, name, description, color });
+            labels.push({ id: result.createLabel.label.id, name, color, description, issues: { totalCount: 0 }, pullRequests: { totalCount: 0 } });
+        },
+        delete: async (label: GitHubLabel): Promise<void> => {
+            await transport.request(DELETE_LABEL_MUTATION, { id: label.id });
+            const labels = await allLabels();
+            const index = labels.findIndex(existing => existing.id === label.id);
+            if (index >= 0) {
+                labels.splice(index, 1);
+            }
+        }
+    }
+}
@@ -1,175 +1,263 @@
 import {
 	App,
-	Modal,
+	Menu,
+	TAbstractFile,
+	moment,
 	Notice,
-	parseYaml,
 	Plugin,
 	PluginSettingTab,
 	Setting,
-	stringifyYaml,
 	TFile,
 	TFolder
 } from 'obsidian';
+import slugify from 'slugify';
+import {findEmbeds, githubContentsUploader, hostedEmbed, replaceEmbeds, replaceHostedEmbeds} from './attachments';
+import {DASHBOARD_VIEW_TYPE, OGDDashboardView} from './dashboard';
+import {commentsCallout, commentsFilePath, renderComments, stripCommentsSection, withCommentsSection} from './comments';
 import {githubClient} from './client';
-import type {GitHubClientOptions, GitHubPost} from './types';
+import {githubLabelManager} from './labels';
+import {diffFields, diffLines, sideBySide} from './diff';
+import {dateTransform, ISO_8601_FORMAT, parseDate} from './dates';
+import {DEFAULT_FIELD_MAPPINGS, fieldMapper} from './fields';
+import {OGDCommentsModal, OGDLogModal, OGDModal, OGDPruneModal, OGDReplyModal, OGDReviewModal, OGDSeriesModal, OGDStatusModal, OGDSuggestModal} from './modals';
+import {parseFrontMatter, stringifyFrontMatter, updateFrontMatter} from './frontmatter';
+import {hashContent, SYNC_STATUS_LABELS, syncManifest} from './sync';
+import {frontMatterTags, formatTagAliases, inlineTags, normalizeTags, parseTagAliases} from './tags';
+import {MARKDOWN_TRANSFORMS, markdownPipeline, noteSection} from './transforms';
+import {formatSeriesDescription, parseSeriesDescription, seriesId, seriesIndexName, seriesIndexNote, seriesNavigation, seriesNavigationOf, sortSeriesParts, stripSeriesNavigation, withSeriesNavigation} from './series';
+import type {AutoSyncState, FieldMapping, FieldTarget, FieldTransform, FrontMatterDocument, GitHubClientOptions, GitHubComment, GitHubLabel, GitHubPost, GitHubSeries, GitHubTransport, DashboardRow, LabelManager, ReviewItem, SeriesPart, SyncLogEntry, SyncState, SyncStatus} from './types';
 import {
+	ADD_DISCUSSION_COMMENT_MUTATION,
 	ADD_LABELS_TO_DISCUSSION,
+	CLOSE_DISCUSSION_MUTATION,
 	CREATE_DISCUSSION_MUTATION,
-	CREATE_LABEL_MUTATION,
+	DELETE_DISCUSSION_MUTATION,
+	GET_DISCUSSION,
+	GET_DISCUSSION_LABELS,
 	GET_REPOSITORY_INFO,
+	LOCK_DISCUSSION_MUTATION,
+	MARK_COMMENT_AS_ANSWER_MUTATION,
+	MINIMIZE_COMMENT_MUTATION,
+	REMOVE_LABELS_FROM_DISCUSSION,
 	UPDATE_DISCUSSION_MUTATION
 } from './graphql';
+import {GitHubApiError, GitHubAuthError, GitHubNotFoundError} from './errors';
+import {githubTransport} from './transport';
 
 // Remember to rename these classes and interfaces!
-const GITHUB_TOKEN = process.env.OGD_GITHUB_TOKEN;
-
-function convertDateFormatToObsidian(dateStr: string) {
-	// Split the date string into parts
-	const [year, month, day] = dateStr.split('-');
-
-	// Return the reformatted date
-	return `${month}/${day}/${year}`;
-}
-
-function convertDateFormatToGH(dateStr: string) {
-	// Split the date string into parts
-	const [month, day, year] = dateStr.split('/');
-
-	// Return the reformatted date
-	return `${year}-${month}-${day}`;
-}
-
-interface OGDSettings {
+const ENV_TOKEN_NAME = 'OGD_GITHUB_TOKEN';
+const SCHEDULE_CHECK_INTERVAL = 5 * 60 * 1000;
+// Entries kept in the in-memory sync log
+const SYNC_LOG_SIZE = 100;
+// More posts of a profile disappearing at once than this is more likely a moved folder than deletions
+const MASS_REMOVAL_LIMIT = 5;
+
+// One blog: a folder in the vault synced with a discussion category of a repository
+interface OGDProfile {
+	// Keys the profile's sync state, so renaming the profile keeps it
+	id: string;
+	name: string;
+	githubToken: string;
 	articlesDir: string;
-	makeMd: boolean;
 	owner: string;
 	repo: string;
 	blogPostCategory: string;
+	// Further categories synced alongside the blog post category
+	categories: string[];
+	// Where a note says which category it belongs to: a subfolder named after it, or a `category` field
+	categoryLocation: 'folder' | 'field';
 	draftLabel: string;
 	tagLabelPrefix: string;
 	seriesLabelPrefix: string;
+	// Hex colours and descriptions of new tag and series labels, with `{name}` for the name without the prefix
+	tagLabelColor: string;
+	tagLabelDescription: string;
+	seriesLabelColor: string;
+	seriesLabelDescription: string;
+	// Add "Part N of M" with links to the neighbouring parts to discussions of a series
+	seriesNavigation: boolean;
+	// Folder the series index notes are written to; empty for none
+	seriesIndexDir: string;
+	// Public URL of a post with `{slug}` as placeholder; empty to link to the discussion
+	siteUrlTemplate: string;
 }
 
-const DEFAULT_SETTINGS: OGDSettings = {
+interface OGDSettings {
+	profiles: OGDProfile[];
+	makeMd: boolean;
+	incrementalDownload: boolean;
+	fieldMappings: FieldMapping[];
+	syncUnmappedFields: boolean;
+	// Upload #tags written in the body along with the frontmatter tags
+	inlineTags: boolean;
+	// Normalized tag to the tag it is replaced with, in both directions
+	tagAliases: Record<string, string>;
+	localDateFormat: string;
+	remoteDateFormat: string;
+	dateFields: string[];
+	manageUpdatedField: boolean;
+	updatedField: string;
+	uploadAttachments: boolean;
+	attachmentBranch: string;
+	attachmentFolder: string;
+	// Markdown transform ID to whether it runs; missing IDs are on
+	markdownTransforms: Record<string, boolean>;
+	scheduledPublishing: boolean;
+	autoSync: boolean;
+	// Seconds to wait after the last edit before uploading
+	autoSyncDelay: number;
+	// Minutes between checks for changes on GitHub
+	autoSyncPollInterval: number;
+	// What happens to the discussion of a note deleted in the vault
+	remoteDeletePolicy: 'keep' | 'close' | 'lock' | 'delete';
+	// What happens to the note of a discussion deleted on GitHub
+	localDeletePolicy: 'unlink' | 'archive' | 'delete';
+	archiveDir: string;
+	syncComments: boolean;
+	// A collapsed section at the end of the note, or a sibling `<note>.comments.md`
+	commentsLocation: 'section' | 'file';
+}
+
+// What the plugin remembers about the posts of one profile between syncs
+interface ProfileState {
+	syncState: SyncState;
+	// Newest discussion `updatedAt` already handled by a download
+	syncCursor?: string;
+	// Discussion ID to the time a post uploaded with the draft label until its published date goes live
+	scheduled: Record<string, string>;
+}
+
+// Sync state is persisted alongside the settings in the plugin's data.json
+interface OGDData extends OGDSettings {
+	// By profile ID
+	profileState: Record<string, ProfileState>;
+	// Hosted attachment URL to the vault path it was uploaded from
+	attachmentIndex: Record<string, string>;
+}
+
+// data.json from before profiles, when the settings held a single blog
+type LegacyData = Partial<Omit<OGDProfile, 'id' | 'name'> & ProfileState>;
+
+const DEFAULT_PROFILE: OGDProfile = {
+	id: 'default',
+	name: 'Blog',
+	githubToken: "",
 	articlesDir: 'Blog',
-	makeMd: false,
 	owner: "",
 	repo: "",
 	blogPostCategory: "Blog Posts",
+	categories: [],
+	categoryLocation: 'folder',
 	draftLabel: "state/draft",
 	tagLabelPrefix: "tag/",
 	seriesLabelPrefix: "series/",
+	tagLabelColor: "1D76DB",
+	tagLabelDescription: "",
+	seriesLabelColor: "0E8A16",
+	seriesLabelDescription: "{name}",
+	seriesNavigation: false,
+	seriesIndexDir: "",
+	siteUrlTemplate: "",
+};
+
+const DEFAULT_SETTINGS: OGDSettings = {
+	profiles: [DEFAULT_PROFILE],
+	makeMd: false,
+	incrementalDownload: true,
+	fieldMappings: DEFAULT_FIELD_MAPPINGS,
+	syncUnmappedFields: false,
+	inlineTags: false,
+	tagAliases: {},
+	localDateFormat: "MM/DD/YYYY",
+	remoteDateFormat: "YYYY-MM-DD",
+	dateFields: ["published"],
+	manageUpdatedField: false,
+	updatedField: "updated",
+	uploadAttachments: false,
+	attachmentBranch: "",
+	attachmentFolder: "blog-assets",
+	markdownTransforms: {},
+	scheduledPublishing: false,
+	autoSync: false,
+	autoSyncDelay: 30,
+	autoSyncPollInterval: 10,
+	remoteDeletePolicy: 'keep',
+	localDeletePolicy: 'unlink',
+	archiveDir: "Archive",
+	syncComments: false,
+	commentsLocation: 'section',
 }
 
-async function executeGitHubGraphQL(query: string, variables: any, token: string) {
-	const response = await fetch('https://api.github.com/graphql', {
-		method: 'POST',
-		headers: {
-			'Authorization': `Bearer ${token}`,
-			'Content-Type': 'application/json',
-		},
-		body: JSON.stringify({
-			query,
-			variables,
-		}),
-	});
+function newProfileId(): string {
+	return Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+}
 
-	const result = await response.json();
-	if (result.errors) {
-		throw new Error(result.errors[0].message);
-	}
-	return result.data;
+/**
+ * Discussion categories a profile syncs, the blog post category first.
+ */
+function profileCategories(profile: OGDProfile): string[] {
+	return [profile.blogPostCategory, ...profile.categories].filter((category, index, all) => all.indexOf(category) === index);
 }
 
-async function createOrUpdateLabels(
-    repoId: string,
-    existingLabels: Map<string, string>,
-    labelNames: string[],
-    token: string
-): Promise<Map<string, string>> {
-    const labelIds = new Map<string, string>();
-
-    for (const labelName of labelNames) {
-        if (existingLabels.has(labelName)) {
-            labelIds.set(labelName, existingLabels.get(labelName)!);
-            continue;
-        }
-
-        // Set color based on label type
-        let color;
-        if (labelName.startsWith('series/')) {
-            color = '0E8A16'; // Green for series labels
-        } else if (labelName.startsWith('tag/')) {
-            color = '1D76DB'; // Blue for tag labels
-        } else {
-            // Default color for any other labels (using a neutral gray)
-            color = '666666';
-        }
-
-        const result = await executeGitHubGraphQL(
-            CREATE_LABEL_MUTATION,
-            {
-                repositoryId: repoId,
-                name: labelName,
-                description: labelName.startsWith('series/') ? labelName.replace('series/', '') : undefined,
-                color: color
-            },
-            token
-        );
-
-        labelIds.set(labelName, result.createLabel.label.id);
-    }
-
-    return labelIds;
+function describeConnectionError(error: unknown): string {
+	if (error instanceof GitHubAuthError) {
+		return `Github rejected the token: ${error.message}`;
+	}
+	if (error instanceof GitHubNotFoundError) {
+		return `Repository not found or not visible to the token: ${error.message}`;
+	}
+	return `Could not connect to Github: ${error instanceof Error ? error.message : 'Unknown error'}`;
 }
 
 /**
- * Fetches GitHub Discussions for a specified repository
- * @param auth - GitHub authentication token
- * @param username - GitHub username/organization
- * @param repo - Repository name
+ * Fetches the GitHub Discussions of a profile
+ * @param transport - GitHub GraphQL transport carrying the profile's token
+ * @param profile - Repository, category and label prefixes to fetch with
  * @param options - Optional configuration for filtering discussions
  * @returns Promise<GitHubPost[]> - Array of GitHub discussions
  */
 async function fetchGithubDiscussions(
-	auth: string,
-	username: string,
-	repo: string,
+	transport: GitHubTransport,
+	profile: OGDProfile,
 	options: {
-		blogPostCategory?: string,
-		draftLabel?: string,
-		tagLabelPrefix?: string,
-		seriesLabelPrefix?: string,
 		lastModified?: string
+		tagAliases?: Record<string, string>
 	} = {}
 ): Promise<GitHubPost[]> {
 	// Validate inputs
-	if (!auth) throw new Error('GitHub authentication token is required');
-	if (!username) throw new Error('GitHub username is required');
-	if (!repo) throw new Error('Repository name is required');
+	if (!profile.owner) throw new Error(`${profile.name}: GitHub username is required`);
+	if (!profile.repo) throw new Error(`${profile.name}: Repository name is required`);
 
-	// Create client options
-	const clientOptions: GitHubClientOptions = {
-		auth,
+	// Create client options for one category
+	const clientOptions = (category: string): GitHubClientOptions => ({
+		transport,
 		repo: {
-			owner: username,
-			name: repo
+			owner: profile.owner,
+			name: profile.repo
 		},
 		mappings: {
-			blogPostCategory: options.blogPostCategory,
-			draftLabel: options.draftLabel,
-			tagLabelPrefix: options.tagLabelPrefix || 'tag/',
-			seriesLabelPrefix: options.seriesLabelPrefix || 'series/'
+			blogPostCategory: category,
+			draftLabel: profile.draftLabel,
+			// Drafts are synced like any other post; the label maps to the `draft` field
+			includeDrafts: true,
+			tagLabelPrefix: profile.tagLabelPrefix || 'tag/',
+			seriesLabelPrefix: profile.seriesLabelPrefix || 'series/',
+			tagAliases: options.tagAliases
 		}
-	};
+	});
 
 	try {
-		// Initialize the GitHub client
-		const client = githubClient(clientOptions);
-
-		// Fetch all posts
-		return await client.getAllPosts(options.lastModified);
+		// A search matches a single category, so fetch each synced category in turn
+		const posts: GitHubPost[] = [];
+		for (const category of profileCategories(profile)) {
+			posts.push(...await githubClient(clientOptions(category)).getAllPosts(options.lastModified));
+		}
+		return posts;
 	} catch (error) {
+		// Keep typed API errors intact so callers can tell auth, rate limit and not-found failures apart
+		if (error instanceof GitHubApiError) {
+			throw error;
+		}
 		if (error instanceof Error) {
 			throw new Error(`Failed to fetch GitHub discussions: ${error.message}`);
 		}
@@ -177,581 +265,2858 @@ async function fetchGithubDiscussions(
 	}
 }
 
+type LocalNote = {
+	file: TFile;
+	content: string;
+	frontMatter: any;
+	body: string;
+	eol: string;
+};
+
+type SyncItem = {
+	profile: OGDProfile;
+	// Discussion ID once the post exists on GitHub, otherwise its slug
+	key: string;
+	slug: string;
+	status: SyncStatus;
+	local?: LocalNote;
+	remote?: GitHubPost;
+};
+
+// What a background sync did for one profile, and the plan it did it from
+type BackgroundSyncResult = {
+	synced: string[];
+	conflicts: SyncItem[];
+	plan: SyncItem[];
+	applied: SyncItem[];
+};
+
+type UploadTarget = {
+	repoId: string;
+	// Category name to ID, for every category the profile syncs
+	categoryIds: Map<string, string>;
+	labels: LabelManager;
+};
+
 export default class ObsidianGithubDiscussions extends Plugin {
 	settings: OGDSettings;
+	profileState: Record<string, ProfileState>;
+	attachmentIndex: Record<string, string>;
+	// Shared GraphQL transports by token
+	private graphql = new Map<string, GitHubTransport>();
+	// Background sync
+	private statusBarEl: HTMLElement;
+	private syncLog: SyncLogEntry[] = [];
+	// Held by every sync that changes posts, manual or in the background
+	private syncLock: Promise<unknown> = Promise.resolve();
+	private lastSync?: Date;
+	private changedPaths = new Set<string>();
+	// Renames change the discussion title without changing the note's content
+	private renamedPaths = new Set<string>();
+	// Tags that cannot become labels, each reported once
+	private unusableTags = new Set<string>();
+	private uploadTimer?: number;
+	private pollTimer?: number;
 
 	async onload() {
 		await this.loadSettings();
 
 		// This creates an icon in the left ribbon.
-		const ribbonIconEl = this.addRibbonIcon('arrow-up', 'Upload Blog to Github Discussions', this.upload());
+		const ribbonIconEl = this.addRibbonIcon('arrow-up', 'Upload Blog to Github Discussions', () => this.upload());
 		// This creates an icon in the left ribbon.
-		const ribbonIconElDown = this.addRibbonIcon('arrow-down', 'Download Blog from Github Discussions', await this.download());
+		const ribbonIconElDown = this.addRibbonIcon('arrow-down', 'Download Blog from Github Discussions', () => this.download());
 		// Perform additional things with the ribbon
 		ribbonIconEl.addClass('my-plugin-ribbon-class');
 		ribbonIconElDown.addClass('my-plugin-ribbon-class');
 
+		this.addCommand({
+			id: 'upload-all',
+			name: 'Upload all notes to Github Discussions',
+			callback: () => this.upload()
+		});
+
+		this.addCommand({
+			id: 'download-all',
+			name: 'Download all notes from Github Discussions',
+			callback: () => this.download()
+		});
+
+		this.addCommand({
+			id: 'upload-profile',
+			name: 'Upload one blog to Github Discussions',
+			callback: () => this.chooseProfile(profile => this.upload(undefined, [profile]))
+		});
+
+		this.addCommand({
+			id: 'download-profile',
+			name: 'Download one blog from Github Discussions',
+			callback: () => this.chooseProfile(profile => this.download(undefined, undefined, [profile]))
+		});
+
+		this.addCommand({
+			id: 'edit-series',
+			name: 'Edit series name and description',
+			callback: () => this.chooseProfile(profile => this.editSeries(profile))
+		});
+
+		this.addCommand({
+			id: 'update-series-indexes',
+			name: 'Update series index notes',
+			callback: async () => {
+				try {
+					await this.updateSeriesIndexes(this.settings.profiles);
+					new Notice('OGD: Updated the series index notes');
+				} catch (error) {
+					console.error('Failed to update series index notes:', error);
+					new Notice(`OGD: Could not update the series index notes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+				}
+			}
+		});
+
+		this.addCommand({
+			id: 'prune-labels',
+			name: 'Prune unused tag and series labels',
+			callback: () => this.chooseProfile(profile => this.pruneLabels(profile))
+		});
+
+		this.addCommand({
+			id: 'upload-current-note',
+			name: 'Upload current note to Github Discussions',
+			checkCallback: (checking) => this.withActiveArticle(checking, file => this.upload(file))
+		});
+
+		this.addCommand({
+			id: 'download-current-note',
+			name: 'Download current note from Github Discussions',
+			checkCallback: (checking) => this.withActiveArticle(checking, file => this.download(file))
+		});
+
+		this.addCommand({
+			id: 'publish-current-note',
+			name: 'Publish current draft to Github Discussions',
+			checkCallback: (checking) => this.withActiveArticle(checking, file => this.publish(file), file => this.isDraft(file))
+		});
+
+		this.addCommand({
+			id: 'open-current-discussion',
+			name: "Open current note's discussion on Github",
+			checkCallback: (checking) => this.withActiveArticle(checking, file => this.openDiscussion(file))
+		});
+
+		this.addCommand({
+			id: 'show-current-comments',
+			name: "Reply to and moderate current note's comments",
+			checkCallback: (checking) => this.withActiveArticle(checking, file => this.showComments(file))
+		});
+
+		this.addCommand({
+			id: 'open-dashboard',
+			name: 'Open sync dashboard',
+			callback: () => this.openDashboard()
+		});
+
+		this.addCommand({
+			id: 'show-sync-status',
+			name: 'Show sync status',
+			callback: () => this.showSyncStatus()
+		});
+
+		this.addCommand({
+			id: 'show-sync-log',
+			name: 'Show sync log',
+			callback: () => new OGDLogModal(this.app, this.syncLog).open()
+		});
+
+		this.addCommand({
+			id: 'show-scheduled-posts',
+			name: 'Show scheduled posts',
+			callback: () => this.showScheduled()
+		});
+
+		this.addCommand({
+			id: 'full-resync',
+			name: 'Full resync from Github Discussions',
+			callback: async () => {
+				// Forget the download cursors so every discussion is fetched again
+				for (const profile of this.settings.profiles) {
+					this.stateOf(profile).syncCursor = undefined;
+				}
+				await this.saveSettings();
+				await this.download();
+			}
+		});
+
+		// A tab listing every post with its sync status
+		this.registerView(DASHBOARD_VIEW_TYPE, leaf => new OGDDashboardView(leaf, {
+			load: () => this.dashboardRows(),
+			upload: (row) => {
+				const file = this.app.vault.getAbstractFileByPath(row.path!);
+				if (file instanceof TFile) this.upload(file);
+			},
+			download: (row) => this.download(undefined, row.key),
+			openNote: (row) => this.app.workspace.openLinkText(row.path!, '', false),
+			openDiscussion: (row) => window.open(row.url)
+		}, date => this.formatDateTime(date)));
+
+		// Single-note actions in the file explorer and editor context menus
+		this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+			if (file instanceof TFile && this.isArticle(file)) {
+				this.addNoteMenuItems(menu, file);
+			}
+		}));
+		this.registerEvent(this.app.workspace.on('editor-menu', (menu, editor, info) => {
+			if (info.file && this.isArticle(info.file)) {
+				this.addNoteMenuItems(menu, info.file);
+			}
+		}));
+
+		// Publish scheduled posts whose date has arrived, at startup and then periodically
+		this.app.workspace.onLayoutReady(() => this.promoteScheduled());
+		this.registerInterval(window.setInterval(() => this.promoteScheduled(), SCHEDULE_CHECK_INTERVAL));
+
+		// Background sync: upload notes shortly after edits stop and poll GitHub for remote edits
+		this.statusBarEl = this.addStatusBarItem();
+		this.statusBarEl.addClass('ogd-status-bar');
+		this.statusBarEl.onClickEvent(() => new OGDLogModal(this.app, this.syncLog).open());
+		this.registerEvent(this.app.vault.on('modify', file => this.queueUpload(file)));
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+			this.changedPaths.delete(oldPath);
+			this.renamedPaths.delete(oldPath);
+			this.renamedPaths.add(file.path);
+			this.queueUpload(file);
+		}));
+		this.registerEvent(this.app.vault.on('delete', file => {
+			this.changedPaths.delete(file.path);
+			this.renamedPaths.delete(file.path);
+			if (this.settings.autoSync && file instanceof TFile && this.isArticle(file)) {
+				this.logSync('warning', `${file.basename} was deleted; the next manual upload handles its discussion`);
+			}
+		}));
+		this.register(() => {
+			window.clearTimeout(this.uploadTimer);
+			window.clearInterval(this.pollTimer);
+		});
+		this.configureAutoSync();
+
 		// This adds a settings tab so the user can configure various aspects of the plugin
 		this.addSettingTab(new OGDSettingsTab(this.app, this));
 	}
 
-	private upload() {
-    return async (evt: MouseEvent) => {
-        const passing = await this.checkSettings();
-        if (!passing) return;
-
-        try {
-            // Get repository info
-            const repoInfo = await executeGitHubGraphQL(
-                GET_REPOSITORY_INFO,
-                {
-                    owner: this.settings.owner,
-                    name: this.settings.repo
-                },
-                GITHUB_TOKEN!
-            );
-
-            const repoId = repoInfo.repository.id;
-            const categoryId = repoInfo.repository.discussionCategories.nodes
-                .find((cat: any) => cat.name === this.settings.blogPostCategory)?.id;
-
-            if (!categoryId) {
-                new Notice(`Category '${this.settings.blogPostCategory}' not found in repository`);
-                return;
-            }
-
-            // Create a map of existing labels
-            const existingLabels = new Map(
-                repoInfo.repository.labels.nodes.map((label: any) => [label.name, label.id])
-            );
-
-            // Get existing discussions for comparison
-            const ghArticles = await fetchGithubDiscussions(
-                GITHUB_TOKEN!,
-                this.settings.owner,
-                this.settings.repo,
-                {
-                    blogPostCategory: this.settings.blogPostCategory,
-                    draftLabel: this.settings.draftLabel,
-                    tagLabelPrefix: this.settings.tagLabelPrefix,
-                    seriesLabelPrefix: this.settings.seriesLabelPrefix
-                }
-            );
-
-            // Process markdown files
-            let markdownFiles = this.app.vault.getMarkdownFiles()
-                .filter(file => file.path.startsWith(this.settings.articlesDir + "/"));
-
-            if (this.settings.makeMd) {
-                const filename = this.settings.articlesDir.split("/").last() + ".md";
-                markdownFiles = markdownFiles.filter(file => file.name !== filename);
-            }
-
-            // Find new files to create discussions for
-            const newFiles: { file: TFile; frontMatter: any; sections: string[]; }[] = [];
-            const existingFiles: { file: TFile; frontMatter: any; sections: string[]; }[] = [];
-
-            for (const file of markdownFiles) {
-                const content = await this.app.vault.read(file);
-                const sections = content.split("---");
-                if (sections.length < 3) continue;
-
-                const frontMatter = parseYaml(sections[1]);
-                if (!frontMatter.slug) continue;
-
-                const existingPost = ghArticles.find(post => {
-                    const postFrontMatter = parseYaml(post.body.split("---")[1]);
-                    return postFrontMatter.slug === frontMatter.slug;
-                });
-
-                if (existingPost) {
-                    existingFiles.push({ file, frontMatter, sections });
-                } else {
-                    newFiles.push({ file, frontMatter, sections });
-                }
-            }
-
-            // Handle new files
-            if (newFiles.length > 0) {
-                new OGDModal(this.app, `Create ${newFiles.length} new discussions from local files?`, async (result) => {
-                    if (result) {
-                        for (const { file, frontMatter, sections } of newFiles) {
-                            const body = sections.slice(2).join("---").trim();
-                            const labels: string[] = [];
-                            if (frontMatter.tags) {
-                                labels.push(...frontMatter.tags.map((tag: string) =>
-                                    `${this.settings.tagLabelPrefix}${tag}`
-                                ));
-                            }
-                            if (frontMatter.series) {
-                                labels.push(`${this.settings.seriesLabelPrefix}${frontMatter.series}`);
-                            }
-
-                            // Create or update labels
-							//@ts-ignore
-                            const labelIds = await createOrUpdateLabels(repoId, existingLabels, labels, GITHUB_TOKEN!);
-
-                            // Prepare frontmatter for GitHub
-                            const githubFrontMatter = {
-                                slug: frontMatter.slug,
-                                description: frontMatter.description,
-                                published: convertDateFormatToGH(frontMatter.published)
-                            };
-
-                            // Create discussion content
-                            const discussionBody = `---\n${stringifyYaml(githubFrontMatter)}---\n${body}`;
-
-                            // Create new discussion
-                            const result = await executeGitHubGraphQL(
-                                CREATE_DISCUSSION_MUTATION,
-                                {
-                                    repositoryId: repoId,
-                                    categoryId: categoryId,
-                                    title: file.basename,
-                                    body: discussionBody
-                                },
-                                GITHUB_TOKEN!
-                            );
-
-                            // Add labels to new discussion
-                            await executeGitHubGraphQL(
-                                ADD_LABELS_TO_DISCUSSION,
-                                {
-                                    labelableId: result.createDiscussion.discussion.id,
-                                    labelIds: Array.from(labelIds.values())
-                                },
-                                GITHUB_TOKEN!
-                            );
-                        }
-                        new Notice(`Created ${newFiles.length} new discussions`);
-                    }
-                }).open();
-            }
-
-            // Handle existing files
-            if (existingFiles.length > 0) {
-                // Prompt for frontmatter and label updates
-                new OGDModal(this.app, "Would you like to update frontmatter and labels in GitHub Discussions?", async (result) => {
-                    if (result) {
-                        for (const { file, frontMatter } of existingFiles) {
-                            const existingPost = ghArticles.find(post => {
-                                const postFrontMatter = parseYaml(post.body.split("---")[1]);
-                                return postFrontMatter.slug === frontMatter.slug;
-                            });
-
-                            if (existingPost) {
-                                const labels: string[] = [];
-                                if (frontMatter.tags) {
-                                    labels.push(...frontMatter.tags.map((tag: string) =>
-                                        `${this.settings.tagLabelPrefix}${tag}`
-                                    ));
-                                }
-                                if (frontMatter.series) {
-                                    labels.push(`${this.settings.seriesLabelPrefix}${frontMatter.series}`);
-                                }
-
-                                // Create or update labels
-								//@ts-ignore
-                                const labelIds = await createOrUpdateLabels(repoId, existingLabels, labels, GITHUB_TOKEN!);
-
-                                // First, remove all existing labels that start with our prefixes
-                                const existingDiscussion = await executeGitHubGraphQL(
-                                    `query getDiscussionLabels($id: ID!) {
-                                        node(id: $id) {
-                                            ... on Discussion {
-                                                labels(first: 100) {
-                                                    nodes {
-                                                        id
-                                                        name
-                                                    }
-                                                }
-                                            }
-                                        }
-                                    }`,
-                                    { id: existingPost.id },
-                                    GITHUB_TOKEN!
-                                );
-
-                                const existingLabelsToRemove = existingDiscussion.node.labels.nodes
-                                    .filter((label: any) =>
-                                        label.name.startsWith(this.settings.tagLabelPrefix) ||
-                                        label.name.startsWith(this.settings.seriesLabelPrefix)
-                                    )
-                                    .map((label: any) => label.id);
-
-                                if (existingLabelsToRemove.length > 0) {
-                                    await executeGitHubGraphQL(
-                                        `mutation removeLabels($labelableId: ID!, $labelIds: [ID!]!) {
-                                            removeLabelsFromLabelable(input: {
-                                                labelableId: $labelableId,
-                                                labelIds: $labelIds
-                                            }) {
-                                                clientMutationId
-                                            }
-                                        }`,
-                                        {
-                                            labelableId: existingPost.id,
-                                            labelIds: existingLabelsToRemove
-                                        },
-                                        GITHUB_TOKEN!
-                                    );
-                                }
-
-                                // Then add the new labels
-                                if (labelIds.size > 0) {
-                                    await executeGitHubGraphQL(
-                                        ADD_LABELS_TO_DISCUSSION,
-                                        {
-                                            labelableId: existingPost.id,
-                                            labelIds: Array.from(labelIds.values())
-                                        },
-                                        GITHUB_TOKEN!
-                                    );
-                                }
-                            }
-                        }
-                        new Notice('Updated frontmatter and labels in GitHub Discussions');
-                    }
-                }).open();
-
-                // Prompt for content updates
-                new OGDModal(this.app, "Would you like to update discussion content in GitHub?", async (result) => {
-                    if (result) {
-                        for (const { file, frontMatter, sections } of existingFiles) {
-                            const existingPost = ghArticles.find(post => {
-                                const postFrontMatter = parseYaml(post.body.split("---")[1]);
-                                return postFrontMatter.slug === frontMatter.slug;
-                            });
-
-                            if (existingPost) {
-                                const body = sections.slice(2).join("---").trim();
-
-                                // Prepare frontmatter for GitHub
-                                const githubFrontMatter = {
-                                    slug: frontMatter.slug,
-                                    description: frontMatter.description,
-                                    published: convertDateFormatToGH(frontMatter.published)
-                                };
-
-                                // Create discussion content
-                                const discussionBody = `---\n${stringifyYaml(githubFrontMatter)}---\n${body}`;
-
-                                // Update existing discussion
-                                await executeGitHubGraphQL(
-                                    UPDATE_DISCUSSION_MUTATION,
-                                    {
-                                        discussionId: existingPost.id,
-                                        title: file.basename,
-                                        body: discussionBody
-                                    },
-                                    GITHUB_TOKEN!
-                                );
-                            }
-                        }
-                        new Notice('Updated discussion content in GitHub');
-                    }
-                }).open();
-            }
-
-        } catch (error) {
-            console.error('Error uploading to GitHub:', error);
-            new Notice(`Error uploading to GitHub: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        }
-    };
-}
+	private chooseProfile(action: (profile: OGDProfile) => void) {
+		if (this.settings.profiles.length === 1) {
+			action(this.settings.profiles[0]);
+			return;
+		}
+		new OGDSuggestModal(this.app, this.settings.profiles, profile => `${profile.name} (${profile.articlesDir} → ${profile.owner}/${profile.repo})`, action).open();
+	}
 
-	private async download() {
-		return (evt: MouseEvent) => {
-			this.checkSettings().then(async passing => {
-				if (passing) {
-					// Get existing markdown files
-					let markdownFiles = this.app.vault.getMarkdownFiles().filter(file => file.path.startsWith(this.settings.articlesDir + "/"));
-					if (this.settings.makeMd) {
-						let filename = this.settings.articlesDir.split("/").last() + ".md";
-						markdownFiles = markdownFiles.filter(file => file.name !== filename);
-					}
+	private withActiveArticle(checking: boolean, action: (file: TFile) => void, when: (file: TFile) => boolean = () => true): boolean {
+		const file = this.app.workspace.getActiveFile();
+		if (!file || !this.isArticle(file) || !when(file)) return false;
+		if (!checking) {
+			action(file);
+		}
+		return true;
+	}
 
-					// Fetch GitHub discussions
-					const ghArticles = await fetchGithubDiscussions(GITHUB_TOKEN!, this.settings.owner, this.settings.repo, {
-						blogPostCategory: this.settings.blogPostCategory,
-						draftLabel: this.settings.draftLabel,
-						tagLabelPrefix: this.settings.tagLabelPrefix,
-						seriesLabelPrefix: this.settings.seriesLabelPrefix,
-					});
+	private addNoteMenuItems(menu: Menu, file: TFile) {
+		menu.addItem(item => item
+			.setTitle('Upload to Github Discussions')
+			.setIcon('arrow-up')
+			.onClick(() => this.upload(file)));
+		menu.addItem(item => item
+			.setTitle('Download from Github Discussions')
+			.setIcon('arrow-down')
+			.onClick(() => this.download(file)));
+		if (this.isDraft(file)) {
+			menu.addItem(item => item
+				.setTitle('Publish draft to Github Discussions')
+				.setIcon('send')
+				.onClick(() => this.publish(file)));
+		}
+		menu.addItem(item => item
+			.setTitle('Open discussion on Github')
+			.setIcon('external-link')
+			.onClick(() => this.openDiscussion(file)));
+		menu.addItem(item => item
+			.setTitle('Comments on Github')
+			.setIcon('message-square')
+			.onClick(() => this.showComments(file)));
+	}
 
-					// Create a map of GitHub articles
-					const ghArticleMap = new Map<string, any>();
-					ghArticles.forEach(article => {
-						const frontMatterString = article.body.split("---")[1];
-						const body = article.body.split("---").slice(2).join("---").trim();
-						const frontMatter = parseYaml(frontMatterString);
-						const tags = article.tags;
-						const series = article.series;
-						frontMatter['tags'] = tags;
-						if (series) {
-							frontMatter['series'] = series['id'];
+	/**
+	 * Uploads every note in the articles directories of `profiles`, or only `file` when given.
+	 */
+	private async upload(file?: TFile, profiles = this.settings.profiles) {
+		if (file) {
+			profiles = [this.profileFor(file)!];
+		}
+		const passing = await this.checkSettings(profiles);
+		if (!passing) return;
+
+		try {
+			const plan = await this.planProfiles(profiles, false, file);
+			this.reportSkipped(plan, 'remote-changed', 'have newer changes on GitHub; download them first');
+
+			const items = await this.withoutMassRemovals(this.validForUpload(plan.filter(item => ['local-only', 'local-changed', 'conflict'].includes(item.status)
+				|| (item.status === 'local-deleted' && this.needsRemoval(item.remote!)))));
+			if (items.length === 0) {
+				new Notice('OGD: Nothing to upload, GitHub is up to date.');
+				return;
+			}
+
+			const targets = new Map<OGDProfile, UploadTarget>();
+			for (const profile of Array.from(new Set(items.map(item => item.profile)))) {
+				targets.set(profile, await this.getUploadTarget(profile));
+			}
+			new OGDReviewModal(this.app, 'Review changes to upload to GitHub', items.map(item => this.toReviewItem(item, 'upload')), approved => this.withSyncLock(async () => {
+				approved = await this.unchangedSinceReview(approved);
+				const unpublished = new Set<string>();
+				try {
+					for (const item of approved) {
+						if (item.status === 'local-deleted') {
+							await this.removeDiscussion(item);
+						} else {
+							await this.uploadItem(item, targets.get(item.profile)!, unpublished);
 						}
-						ghArticleMap.set(frontMatter['slug'], [frontMatter, body, article.title]);
-					});
+					}
+					await this.saveSettings();
+					await this.updateSeriesIndexes(Array.from(new Set(approved.map(item => item.profile))));
+					new Notice(`OGD: Uploaded ${approved.length} posts to GitHub Discussions`);
+					this.logSync('info', `Uploaded ${approved.length} posts`);
+					this.refreshDashboard(plan, approved);
+					if (unpublished.size > 0) {
+						new Notice(`OGD: Links to posts that are not published yet were left as plain text; upload these and then the posts linking to them again: ${Array.from(unpublished).join(", ")}`, 15000);
+					}
+				} catch (error) {
+					console.error('Error uploading to GitHub:', error);
+					new Notice(`Error uploading to GitHub: ${error instanceof Error ? error.message : 'Unknown error'}`);
+					this.logSync('error', `Upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+					await this.saveSettings();
+				}
+			})).open();
+		} catch (error) {
+			console.error('Error uploading to GitHub:', error);
+			new Notice(`Error uploading to GitHub: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
+
+	/**
+	 * Clears the note's draft flag and uploads it, which takes the draft label off its discussion.
+	 */
+	private async publish(file: TFile) {
+		await this.app.vault.process(file, content => updateFrontMatter(content, (frontMatter) => {
+			frontMatter['draft'] = false;
+		}));
+		await this.upload(file);
+	}
 
-					// Create a map of existing file slugs
-					const existingFileSlugs = new Set<string>();
-					for (const file of markdownFiles) {
-						const content = await this.app.vault.read(file);
-						const frontmatter = parseYaml(content.split("---")[1]);
-						if (frontmatter.slug) {
-							existingFileSlugs.add(frontmatter.slug);
+	/**
+	 * Downloads every changed discussion of `profiles`, or only the one paired with
+	 * `file` or with the ID `discussionId` when given. Single downloads always fetch
+	 * everything and leave the download cursors alone.
+	 */
+	private async download(file?: TFile, discussionId?: string, profiles = this.settings.profiles) {
+		if (file) {
+			profiles = [this.profileFor(file)!];
+		}
+		const passing = await this.checkSettings(profiles);
+		if (!passing) return;
+
+		const single = !!file || !!discussionId;
+		try {
+			const incremental = !single && this.settings.incrementalDownload;
+			const plan = (await this.planProfiles(profiles, incremental, file))
+				.filter(item => !discussionId || item.key === discussionId);
+			this.reportSkipped(plan, 'local-changed', 'have local changes that are not on GitHub yet; upload them first');
+
+			const refreshed = await this.withSyncLock(() => this.refreshComments(plan, incremental ? profiles : []));
+			if (refreshed.length > 0) {
+				await this.saveSettings();
+				new Notice(`OGD: Downloaded new comments on ${refreshed.map(item => item.local!.file.basename).join(", ")}`);
+			}
+
+			const items = await this.withoutMassRemovals(plan.filter(item => ['remote-only', 'remote-changed', 'conflict', 'remote-deleted'].includes(item.status)));
+			if (items.length === 0) {
+				if (!single) {
+					this.advanceCursor(plan, []);
+					await this.saveSettings();
+				}
+				new Notice('OGD: Nothing to download, the vault is up to date.');
+				return;
+			}
+
+			new OGDReviewModal(this.app, 'Review changes to download from GitHub', items.map(item => this.toReviewItem(item, 'download')), approved => this.withSyncLock(async () => {
+				approved = await this.unchangedSinceReview(approved);
+				try {
+					for (const item of approved) {
+						if (item.status === 'remote-deleted') {
+							await this.removeNote(item);
+						} else {
+							await this.downloadItem(item);
 						}
 					}
-
-					// Handle new files
-					const newArticles = Array.from(ghArticleMap.entries())
-						.filter(([slug]) => !existingFileSlugs.has(slug));
-
-					if (newArticles.length > 0) {
-						new OGDModal(this.app, `Create ${newArticles.length} new articles from GitHub Discussions?`, async (result) => {
-							if (result) {
-								for (const [slug, [frontMatter, body, title]] of newArticles) {
-									// Create filename from the GitHub discussion title
-									const fileName = `${title}.md`;
-									const filePath = `${this.settings.articlesDir}/${fileName}`;
-
-									// Format the frontmatter date
-									if (frontMatter.published) {
-										frontMatter.published = convertDateFormatToObsidian(frontMatter.published);
-									}
-
-									// Create the file content
-									const newContent = "---\n" + stringifyYaml(frontMatter) + "---\n" + body;
-
-									// Create the new file
-									await this.app.vault.create(filePath, newContent);
-								}
-								new Notice(`Created ${newArticles.length} new articles from GitHub Discussions`);
-							}
-						}).open();
+					if (!single) {
+						this.advanceCursor(plan, items.filter(item => !approved.includes(item)));
 					}
+					await this.saveSettings();
+					await this.updateSeriesIndexes(Array.from(new Set(approved.map(item => item.profile))));
+					new Notice(`OGD: Downloaded ${approved.length} posts from GitHub Discussions`);
+					this.logSync('info', `Downloaded ${approved.length} posts`);
+					this.refreshDashboard(plan, approved);
+				} catch (error) {
+					console.error('Error downloading from GitHub:', error);
+					new Notice(`Error downloading from GitHub: ${error instanceof Error ? error.message : 'Unknown error'}`);
+					this.logSync('error', `Download failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+					await this.saveSettings();
+				}
+			})).open();
+		} catch (error) {
+			console.error('Error downloading from GitHub:', error);
+			new Notice(`Error downloading from GitHub: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
 
-					// Handle existing files updates
-					new OGDModal(this.app, "Would you like to update frontmatter from Github Discussions?", (result) => {
-						if (result) {
-							markdownFiles.map(file => {
-								this.app.fileManager.processFrontMatter(file, (frontmatter) => {
-									const ghFrontmatter = ghArticleMap.get(frontmatter['slug'])?.[0];
-									if (ghFrontmatter) {
-										frontmatter['description'] = ghFrontmatter['description'];
-										frontmatter['tags'] = ghFrontmatter['tags'] || [];
-										frontmatter['published'] = convertDateFormatToObsidian(ghFrontmatter['published']);
-										console.log(ghFrontmatter);
-										if (ghFrontmatter['tags']) {
-											frontmatter['tags'] = ghFrontmatter['tags'];
-										}
-										if (ghFrontmatter['series']) {
-											frontmatter['series'] = ghFrontmatter['series'];
-										}
-									}
-								});
-							});
-						}
-					}).open();
-
-					new OGDModal(this.app, "Would you like to update article bodies from Github Discussions?", (result) => {
-						if (result) {
-							markdownFiles.map(async file => {
-								const sections = await this.app.vault.read(file);
-								const frontmatter = parseYaml(sections.split("---")[1]);
-								const slug = frontmatter['slug'];
-								if (ghArticleMap.has(slug)) {
-									const newContent = "---\n" + stringifyYaml(frontmatter) + "---\n" + ghArticleMap.get(slug)[1];
-									await this.app.vault.modify(file, newContent);
-								}
-							});
-						}
-					}).open();
+	/**
+	 * Moves the download cursor of each planned profile up to the newest discussion
+	 * that was handled. Skipped discussions hold the cursor back so they are fetched
+	 * again next time.
+	 */
+	private advanceCursor(plan: SyncItem[], skipped: SyncItem[]) {
+		for (const profile of Array.from(new Set(plan.map(item => item.profile)))) {
+			const state = this.stateOf(profile);
+			const holdBack = Math.min(...skipped.filter(item => item.profile === profile && item.remote).map(item => item.remote!.updated.getTime()));
+			let newest = state.syncCursor ? new Date(state.syncCursor).getTime() : 0;
+			for (const { remote } of plan.filter(item => item.profile === profile)) {
+				if (remote && remote.updated.getTime() < holdBack) {
+					newest = Math.max(newest, remote.updated.getTime());
 				}
-			});
+			}
+			if (newest > 0) {
+				state.syncCursor = new Date(newest).toISOString().replace(/\.\d{3}Z$/, 'Z');
+			}
+		}
+	}
+
+	/**
+	 * Drops notes whose frontmatter cannot be converted for GitHub (e.g. an
+	 * unparseable date) and reports each of them by file.
+	 */
+	private validForUpload(items: SyncItem[]): SyncItem[] {
+		const errors: string[] = [];
+		const valid = items.filter(item => {
+			// Deletions upload nothing
+			if (!item.local) return true;
+			try {
+				if (this.needsDraftLabel(item.local!.frontMatter) && !item.profile.draftLabel) {
+					throw new Error(`${item.local!.file.path}: draft and scheduled notes need a Draft Label in the ${item.profile.name} profile`);
+				}
+				const category = this.categoryOf(item.profile, item.local!);
+				if (!profileCategories(item.profile).includes(category)) {
+					throw new Error(`${item.local!.file.path}: category '${category}' is not synced by the ${item.profile.name} profile`);
+				}
+				this.toDiscussionBody(item.local!);
+				return true;
+			} catch (error) {
+				errors.push(error instanceof Error ? error.message : String(error));
+				return false;
+			}
+		});
+		if (errors.length > 0) {
+			new Notice(`OGD: Skipped ${errors.length} notes with invalid frontmatter:\n${errors.join("\n")}`, 15000);
+		}
+		return valid;
+	}
+
+	private async getUploadTarget(profile: OGDProfile): Promise<UploadTarget> {
+		// Get repository info
+		const repoInfo = await this.transport(profile).request(
+			GET_REPOSITORY_INFO,
+			{
+				owner: profile.owner,
+				name: profile.repo
+			}
+		);
+
+		const categoryIds = new Map<string, string>();
+		for (const category of profileCategories(profile)) {
+			const categoryId = repoInfo.repository.discussionCategories.nodes
+				.find((cat: any) => cat.name === category)?.id;
+			if (!categoryId) {
+				throw new Error(`Category '${category}' not found in ${profile.owner}/${profile.repo}`);
+			}
+			categoryIds.set(category, categoryId);
+		}
+
+		return {
+			repoId: repoInfo.repository.id,
+			categoryIds,
+			labels: this.labelManager(profile)
 		};
 	}
 
-	private async checkSettings(): Promise<boolean> {
-		const folders = this.app.vault.getAllLoadedFiles()
-			.filter(file => file instanceof TFolder);
-		folders.filter(folder => folder.name === this.settings.articlesDir);
-		let success = true;
-		if (folders.length === 0) {
-			new Notice('OGD: Does the Blog directory exist? Did you configure it in OGDSettings?');
-			success = false;
-			return Promise.resolve(success);
+	private async uploadItem({ profile, local, remote }: SyncItem, target: UploadTarget, unpublished: Set<string>) {
+		if (remote && this.settings.manageUpdatedField && this.settings.updatedField) {
+			await this.app.vault.process(local!.file, content => updateFrontMatter(content, (frontMatter) => {
+				frontMatter[this.settings.updatedField] = moment().format(this.settings.localDateFormat);
+			}));
+			local = await this.readNote(local!.file);
 		}
-		let markdownFiles = this.app.vault.getMarkdownFiles().filter(file => file.path.startsWith(this.settings.articlesDir + "/"));
-		if (this.settings.makeMd) {
-			let filename = this.settings.articlesDir.split("/").last() + ".md";
-			markdownFiles = markdownFiles.filter(file => file.name !== filename);
+
+		const { file, frontMatter } = local!;
+		const categoryId = target.categoryIds.get(this.categoryOf(profile, local!))!;
+		let body = await this.toGithubMarkdown(await this.uploadAttachments(profile, local!), file, unpublished);
+		const labelIds = await target.labels.ensure(this.labelsFor(profile, local!));
+		if (profile.seriesNavigation && this.hasSeries(frontMatter)) {
+			const id = seriesId(frontMatter.series);
+			const parts = this.seriesParts(profile, id);
+			const index = parts.findIndex(part => part.path === file.path);
+			const series = (await this.seriesDetails(profile, target.labels)).get(id) ?? parseSeriesDescription(id);
+			if (index >= 0) {
+				body = withSeriesNavigation(body, seriesNavigation(series, parts, index), local!.eol);
+			}
 		}
-		if (markdownFiles.length === 0) {
-			new Notice('OGD: No markdown files found in the specified directory.');
+
+		if (remote) {
+			await this.replaceLabels(profile, remote.id, labelIds);
+
+			// Update existing discussion
+			const result = await this.transport(profile).request(
+				UPDATE_DISCUSSION_MUTATION,
+				{
+					discussionId: remote.id,
+					title: file.basename,
+					body: this.toDiscussionBody(local!, body),
+					// A note moved to another category's folder moves its discussion
+					categoryId: this.changedCategory(profile, local!, remote) ? categoryId : undefined
+				}
+			);
+
+			const discussion = result.updateDiscussion.discussion;
+			await this.recordUpload(profile, file, discussion, discussion.updatedAt);
+			return;
+		}
+
+		// Create new discussion
+		const result = await this.transport(profile).request(
+			CREATE_DISCUSSION_MUTATION,
+			{
+				repositoryId: target.repoId,
+				categoryId,
+				title: file.basename,
+				body: this.toDiscussionBody(local!, body)
+			}
+		);
+		const discussion = result.createDiscussion.discussion;
+		let updatedAt = discussion.updatedAt;
+
+		// Add labels to new discussion, which bumps its updatedAt again
+		if (labelIds.size > 0) {
+			const labelled = await this.transport(profile).request(
+				ADD_LABELS_TO_DISCUSSION,
+				{
+					labelableId: discussion.id,
+					labelIds: Array.from(labelIds.values())
+				}
+			);
+			updatedAt = labelled.addLabelsToLabelable.labelable.updatedAt ?? updatedAt;
+		}
+
+		await this.recordUpload(profile, file, discussion, updatedAt);
+	}
+
+	/**
+	 * Writes the discussion's ID, number and URL into the note so later syncs can
+	 * pair them without relying on the slug, then records the synced state.
+	 */
+	private async recordUpload(profile: OGDProfile, file: TFile, discussion: { id: string, number: number, url: string }, updatedAt: string) {
+		await this.app.vault.process(file, content => updateFrontMatter(content, (frontMatter) => {
+			frontMatter['githubDiscussionId'] = discussion.id;
+			frontMatter['githubDiscussionNumber'] = discussion.number;
+			frontMatter['githubUrl'] = discussion.url;
+		}));
+		const note = await this.readNote(file);
+		const goLive = this.goLiveTime(note.frontMatter);
+		const { scheduled } = this.stateOf(profile);
+		if (goLive) {
+			scheduled[discussion.id] = goLive.toISOString();
 		} else {
-			// Do something with the markdown files
-			new Notice(`OGD: Found ${markdownFiles.length} markdown files in the directory.`);
+			delete scheduled[discussion.id];
 		}
-		if (!GITHUB_TOKEN) {
-			new Notice('OGD: This plugin requires an environment variable to be set with the name OGD_GITHUB_TOKEN');
-			success = false;
+		this.recordSync(profile, discussion.id, note, updatedAt);
+	}
+
+	/**
+	 * When scheduled publishing is on, the time a note whose `published` date is
+	 * still in the future goes live. Drafts are never scheduled.
+	 */
+	private goLiveTime(frontMatter: any): moment.Moment | undefined {
+		if (!this.settings.scheduledPublishing || frontMatter.draft === true) return undefined;
+		const published = parseDate(frontMatter.published, this.settings.localDateFormat);
+		return published?.isAfter(moment()) ? published : undefined;
+	}
+
+	private needsDraftLabel(frontMatter: any): boolean {
+		return frontMatter.draft === true || this.goLiveTime(frontMatter) !== undefined;
+	}
+
+	/**
+	 * Whether a discussion is a draft, as opposed to carrying the draft label only
+	 * until its scheduled date.
+	 */
+	private isRemoteDraft(profile: OGDProfile, post: GitHubPost): boolean {
+		return post.draft && !(post.id in this.stateOf(profile).scheduled);
+	}
+
+	/**
+	 * Takes the draft label off scheduled posts whose published date has arrived.
+	 */
+	private async promoteScheduled() {
+		const published: string[] = [];
+		let checked = false;
+		for (const profile of this.settings.profiles) {
+			const { syncState, scheduled } = this.stateOf(profile);
+			const due = Object.keys(scheduled).filter(id => new Date(scheduled[id]).getTime() <= Date.now());
+			if (due.length === 0 || !this.getToken(profile)) continue;
+			checked = true;
+
+			for (const discussionId of due) {
+				try {
+					const discussion = await this.transport(profile).request(GET_DISCUSSION_LABELS, { id: discussionId });
+					const draftLabel = discussion.node.labels.nodes.find((label: any) => label.name === profile.draftLabel);
+					if (draftLabel) {
+						const result = await this.transport(profile).request(REMOVE_LABELS_FROM_DISCUSSION, {
+							labelableId: discussionId,
+							labelIds: [draftLabel.id]
+						});
+						syncManifest(syncState).recordRemote(discussionId, { updated: new Date(result.removeLabelsFromLabelable.labelable.updatedAt) });
+						published.push(discussion.node.title);
+					}
+					delete scheduled[discussionId];
+				} catch (error) {
+					if (error instanceof GitHubNotFoundError) {
+						delete scheduled[discussionId];
+						continue;
+					}
+					console.error(`OGD: could not publish scheduled discussion ${discussionId}:`, error);
+				}
+			}
 		}
-		if (this.settings.owner === "" || this.settings.repo === "") {
-			new Notice("OGD: Please ensure owner and repo are configured correctly. Owner should be a Github username and repo should be the name of the repository where we want to publish md to discussions.");
-			success = false;
+		if (!checked) return;
+		await this.saveSettings();
+		if (published.length > 0) {
+			new Notice(`OGD: Published scheduled posts: ${published.join(", ")}`);
+			this.logSync('info', `Published scheduled posts: ${published.join(", ")}`);
 		}
-		return Promise.resolve(success);
 	}
 
-	onunload() {
+	/**
+	 * Starts or stops polling GitHub, and shows or hides the status bar item, to
+	 * match the background sync settings.
+	 */
+	configureAutoSync() {
+		window.clearInterval(this.pollTimer);
+		window.clearTimeout(this.uploadTimer);
+		this.changedPaths.clear();
+		this.renamedPaths.clear();
+		this.statusBarEl.toggle(this.settings.autoSync);
+		if (this.settings.autoSync) {
+			this.pollTimer = window.setInterval(() => this.autoDownload(), this.settings.autoSyncPollInterval * 60 * 1000);
+			this.setAutoSyncStatus('idle');
+		}
 	}
 
-	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+	private queueUpload(file: TAbstractFile) {
+		if (!this.settings.autoSync || !(file instanceof TFile) || !this.isArticle(file)) return;
+		this.changedPaths.add(file.path);
+		window.clearTimeout(this.uploadTimer);
+		this.uploadTimer = window.setTimeout(() => this.autoUpload(), this.settings.autoSyncDelay * 1000);
 	}
 
-	async saveSettings() {
-		await this.saveData(this.settings);
+	/**
+	 * Uploads the notes edited since the last background upload. Notes whose content
+	 * still matches the last sync (such as after the plugin wrote their frontmatter)
+	 * are dropped without asking GitHub, and notes that also changed on GitHub are
+	 * left for a manual sync.
+	 */
+	private async autoUpload() {
+		const changed = new Set<TFile>();
+		for (const path of Array.from(this.changedPaths)) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (!(file instanceof TFile) || !this.isArticle(file)) continue;
+			try {
+				const note = await this.readNote(file);
+				const key = note.frontMatter.githubDiscussionId ?? note.frontMatter.slug;
+				const { syncState } = this.stateOf(this.profileFor(file)!);
+				if (key && (this.renamedPaths.has(path) || syncState[key]?.hash !== hashContent(note.content))) {
+					changed.add(file);
+				}
+			} catch (error) {
+				this.logSync('error', error instanceof Error ? error.message : String(error));
+			}
+		}
+		this.changedPaths.clear();
+		this.renamedPaths.clear();
+		if (changed.size === 0) return;
+
+		await this.backgroundSync(async (profile) => {
+			const files = Array.from(changed).filter(file => this.profileFor(file) === profile);
+			if (files.length === 0) return { synced: [], conflicts: [], plan: [], applied: [] };
+			const plan = (await this.planSync(profile, false)).filter(item => item.local && files.includes(item.local.file));
+			const items = this.validForUpload(plan.filter(item => ['local-only', 'local-changed'].includes(item.status)));
+			if (items.length > 0) {
+				const target = await this.getUploadTarget(profile);
+				const unpublished = new Set<string>();
+				for (const item of items) {
+					await this.uploadItem(item, target, unpublished);
+				}
+				if (unpublished.size > 0) {
+					this.logSync('warning', `Links to posts that are not published yet were left as plain text: ${Array.from(unpublished).join(", ")}`);
+				}
+			}
+			return {
+				synced: items.map(item => item.local!.file.basename),
+				conflicts: plan.filter(item => item.status === 'conflict' || item.status === 'remote-changed'),
+				plan,
+				applied: items
+			};
+		}, 'Uploaded');
 	}
-}
 
-class OGDModal extends Modal {
-	constructor(app: App, question: string, onSubmit: (result: boolean) => void) {
-		super(app);
-		this.setTitle("OGD Confirmation Dialog:");
-		let approve = false;
-		new Setting(this.contentEl)
-			.setName(question)
-			.addToggle(toggle => {
-				toggle.setValue(approve)
-					.onChange(async (value) => {
-						approve = value;
-					})
-			});
+	/**
+	 * Downloads discussions edited on GitHub since the download cursor. Posts that
+	 * also changed in the vault are left for a manual sync.
+	 */
+	private async autoDownload() {
+		await this.backgroundSync(async (profile) => {
+			const plan = await this.planSync(profile, true);
+			const items = plan.filter(item => ['remote-only', 'remote-changed'].includes(item.status));
+			for (const item of items) {
+				await this.downloadItem(item);
+			}
+			const refreshed = await this.refreshComments(plan, [profile]);
+			const conflicts = plan.filter(item => item.status === 'conflict');
+			this.advanceCursor(plan, conflicts);
+			return {
+				synced: items.map(item => item.remote!.title).concat(refreshed.map(item => `comments on ${item.local!.file.basename}`)),
+				conflicts,
+				plan,
+				applied: items
+			};
+		}, 'Downloaded');
+	}
 
-		new Setting(this.contentEl)
-			.addButton((btn) =>
-				btn
-					.setButtonText('Submit')
-					.setCta()
-					.onClick(() => {
-						this.close();
-						onSubmit(approve);
-					}));
+	/**
+	 * Runs `sync` once every sync started before it is done, so a background sync
+	 * never plans or creates a discussion a manual one is still uploading.
+	 */
+	private withSyncLock<T>(sync: () => Promise<T>): Promise<T> {
+		const run = this.syncLock.then(sync);
+		this.syncLock = run.catch(() => undefined);
+		return run;
 	}
-}
 
-class OGDSettingsTab extends PluginSettingTab {
-	plugin: ObsidianGithubDiscussions;
+	/**
+	 * Approved items whose note is still as it was reviewed. A sync that ran while
+	 * the review dialog was open may have uploaded or rewritten some of them, such
+	 * as a background upload creating the discussion of a new note, or a
+	 * background download creating the note of a new discussion.
+	 */
+	private async unchangedSinceReview(approved: SyncItem[]): Promise<SyncItem[]> {
+		const changed: SyncItem[] = [];
+		for (const item of approved) {
+			if (!item.local) {
+				if (item.status === 'remote-only' && this.stateOf(item.profile).syncState[item.key]) {
+					changed.push(item);
+				}
+				continue;
+			}
+			const file = this.app.vault.getAbstractFileByPath(item.local.file.path);
+			if (!(file instanceof TFile) || await this.app.vault.read(file) !== item.local.content) {
+				changed.push(item);
+			}
+		}
+		if (changed.length > 0) {
+			new Notice(`OGD: Skipped posts that changed since the review, sync them again: ${changed.map(item => item.slug).join(", ")}`, 10000);
+		}
+		return approved.filter(item => !changed.includes(item));
+	}
 
-	constructor(app: App, plugin: ObsidianGithubDiscussions) {
-		super(app, plugin);
-		this.plugin = plugin;
+	/**
+	 * Runs a background sync once no other sync is running, profile by profile, and
+	 * reports it in the status bar and the sync log. Profiles that are not
+	 * configured yet are skipped.
+	 */
+	private backgroundSync(sync: (profile: OGDProfile) => Promise<BackgroundSyncResult>, verb: string) {
+		return this.withSyncLock(() => this.runBackgroundSync(sync, verb));
 	}
 
-	display(): void {
-		const {containerEl} = this;
+	private async runBackgroundSync(sync: (profile: OGDProfile) => Promise<BackgroundSyncResult>, verb: string) {
+		const profiles = this.configuredProfiles();
+		if (profiles.length === 0) return;
+
+		this.setAutoSyncStatus('syncing');
+		try {
+			const synced: string[] = [];
+			const conflicts: SyncItem[] = [];
+			const plan: SyncItem[] = [];
+			const applied: SyncItem[] = [];
+			for (const profile of profiles) {
+				const result = await sync(profile);
+				synced.push(...result.synced);
+				conflicts.push(...result.conflicts);
+				plan.push(...result.plan);
+				applied.push(...result.applied);
+			}
+			await this.saveSettings();
+			this.refreshDashboard(plan, applied);
+			this.lastSync = new Date();
+			if (synced.length > 0) {
+				this.logSync('info', `${verb} ${synced.join(", ")}`);
+			}
+			const names = conflicts.map(item => item.local?.file.basename ?? item.remote!.title);
+			if (names.length > 0) {
+				this.logSync('warning', `Changed in the vault and on GitHub, sync these manually: ${names.join(", ")}`);
+			}
+			this.setAutoSyncStatus(names.length > 0 ? 'conflict' : 'idle', names);
+		} catch (error) {
+			console.error('OGD: background sync failed:', error);
+			this.logSync('error', error instanceof Error ? error.message : String(error));
+			this.setAutoSyncStatus('error');
+			// Keep whatever was synced before the failure
+			await this.saveSettings();
+		}
+	}
 
-		containerEl.empty();
+	private setAutoSyncStatus(state: AutoSyncState, conflicts: string[] = []) {
+		const since = this.lastSync ? ` · ${this.lastSync.toLocaleTimeString()}` : '';
+		const text: Record<AutoSyncState, string> = {
+			idle: this.lastSync ? `OGD: synced${since}` : 'OGD: idle',
+			syncing: 'OGD: syncing…',
+			error: `OGD: sync error${since}`,
+			conflict: `OGD: ${conflicts.length} conflicts${since}`,
+		};
+		this.statusBarEl.setText(text[state]);
+		this.statusBarEl.setAttr('aria-label', conflicts.length > 0 ? `Changed on both sides: ${conflicts.join(", ")}` : 'Open the OGD sync log');
+	}
 
-		new Setting(containerEl)
-			.setName('Blog Articles Directory')
-			.setDesc('Github Discussion Blog Articles Directory')
-			.addDropdown(dropdown => {
-				// Get all folders in the vault
-				const folders = this.plugin.app.vault.getAllLoadedFiles()
-					.filter(file => file instanceof TFolder);
+	private logSync(level: SyncLogEntry['level'], message: string) {
+		this.syncLog.push({ time: new Date(), level, message });
+		this.syncLog.splice(0, this.syncLog.length - SYNC_LOG_SIZE);
+	}
 
-				// Populate the dropdown with folder paths
-				folders.forEach(folder => {
-					dropdown.addOption(folder.path, folder.path);
+	private showScheduled() {
+		const scheduled: Record<string, string> = Object.assign({}, ...this.settings.profiles.map(profile => this.stateOf(profile).scheduled));
+		const titles = new Map<string, string>();
+		const notUploaded: string[] = [];
+		for (const file of this.getArticleFiles()) {
+			const frontMatter = this.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+			if (frontMatter.githubDiscussionId) {
+				titles.set(frontMatter.githubDiscussionId, file.basename);
+			}
+			const goLive = this.goLiveTime(frontMatter);
+			if (goLive && !(frontMatter.githubDiscussionId in scheduled)) {
+				notUploaded.push(`${file.basename}: ${goLive.format('LLL')}`);
+			}
+		}
+
+		const waiting = Object.keys(scheduled)
+			.sort((a, b) => scheduled[a].localeCompare(scheduled[b]))
+			.map(id => `${titles.get(id) ?? id}: ${moment(scheduled[id]).format('LLL')}`);
+		new OGDStatusModal(this.app, [
+			{ label: 'Uploaded, waiting to go live', entries: waiting },
+			{ label: 'Scheduled but not uploaded yet', entries: notUploaded },
+		], [
+			this.settings.scheduledPublishing
+				? 'Posts go live within a few minutes of their published date while Obsidian is running.'
+				: 'Scheduled publishing is off; posts with a future published date are uploaded as published.'
+		], 'OGD Scheduled Posts').open();
+	}
+
+	private async downloadItem({ profile, key, local, remote }: SyncItem) {
+		const comments = this.settings.syncComments ? await this.fetchComments(profile, remote!.id) : [];
+		const commentsSection = this.settings.syncComments && this.settings.commentsLocation === 'section' && comments.length > 0
+			? commentsCallout(comments, date => this.formatDateTime(date))
+			: undefined;
+
+		let file: TFile;
+		if (local) {
+			// A discussion renamed on GitHub renames its note, and one moved to another category moves it
+			const folder = this.changedCategory(profile, local, remote!)
+				? await this.categoryFolder(profile, remote!.category.name)
+				: local.file.parent?.path ?? profile.articlesDir;
+			const renamed = `${folder}/${remote!.title}.md`;
+			if (renamed !== local.file.path && !this.app.vault.getAbstractFileByPath(renamed)) {
+				await this.renameWithComments(local.file, renamed);
+			}
+			await this.app.vault.modify(local.file, this.toNoteContent(profile, remote!, local.file.path, local.frontMatter, commentsSection));
+			file = local.file;
+		} else {
+			// Create filename from the GitHub discussion title
+			const filePath = `${await this.categoryFolder(profile, remote!.category.name)}/${remote!.title}.md`;
+			file = await this.app.vault.create(filePath, this.toNoteContent(profile, remote!, filePath, {}, commentsSection));
+		}
+
+		if (this.settings.syncComments && this.settings.commentsLocation === 'file') {
+			await this.writeCommentsFile(file, remote!.title, remote!.githubUrl, comments);
+		}
+		this.recordSync(profile, key, await this.readNote(file), remote!.updated.toISOString());
+		if (this.settings.syncComments) {
+			syncManifest(this.stateOf(profile).syncState).recordComments(key, remote!.commentsFingerprint);
+		}
+	}
+
+	/**
+	 * Downloads the comments of posts that are otherwise in sync but whose comments
+	 * changed since they were last downloaded. Comments, replies, edits and reactions
+	 * do not change a discussion's update time, so these posts never come up as
+	 * changed on GitHub, and an incremental plan leaves them out altogether; for
+	 * the `incremental` profiles they are looked up separately. Only the comments
+	 * section or file of their notes is rewritten.
+	 */
+	private async refreshComments(plan: SyncItem[], incremental: OGDProfile[] = []): Promise<SyncItem[]> {
+		if (!this.settings.syncComments) return [];
+		const fingerprints = new Map<SyncItem, string>();
+		for (const item of plan) {
+			if (item.status === 'unchanged' && item.local && item.remote) {
+				fingerprints.set(item, item.remote.commentsFingerprint);
+			}
+		}
+		for (const profile of incremental) {
+			for (const [item, fingerprint] of await this.unplannedCommentsFingerprints(profile, plan)) {
+				fingerprints.set(item, fingerprint);
+			}
+		}
+		const items = [...fingerprints.keys()]
+			.filter(item => syncManifest(this.stateOf(item.profile).syncState).commentsChanged(item.key, fingerprints.get(item)!));
+
+		for (const item of items) {
+			const { profile, key, local } = item;
+			const comments = await this.fetchComments(profile, key);
+			if (this.settings.commentsLocation === 'section') {
+				const commentsSection = comments.length > 0 ? commentsCallout(comments, date => this.formatDateTime(date)) : undefined;
+				await this.app.vault.process(local!.file, content => {
+					const doc = parseFrontMatter(content);
+					return stringifyFrontMatter({ ...doc, body: withCommentsSection(doc.body, commentsSection, doc.eol) });
 				});
+			} else {
+				await this.writeCommentsFile(local!.file, local!.file.basename, local!.frontMatter.githubUrl, comments);
+			}
+			const { syncState } = this.stateOf(profile);
+			this.recordSync(profile, key, await this.readNote(local!.file), syncState[key].remoteUpdated);
+			syncManifest(syncState).recordComments(key, fingerprints.get(item)!);
+		}
+		return items;
+	}
 
-				dropdown
-					.setValue(this.plugin.settings.articlesDir)
-					.onChange(async (value) => {
-						this.plugin.settings.articlesDir = value;
-						await this.plugin.saveSettings();
-					});
-			});
+	/**
+	 * Comments fingerprints of the synced notes of `profile` that are missing from
+	 * an incremental plan, as items of the plan. Notes edited since their last sync
+	 * are left for the next upload.
+	 */
+	private async unplannedCommentsFingerprints(profile: OGDProfile, plan: SyncItem[]): Promise<Map<SyncItem, string>> {
+		const { syncState } = this.stateOf(profile);
+		const planned = new Set(plan.map(item => item.key));
+		const files = new Map<string, TFile>();
+		for (const file of this.getArticleFiles(profile)) {
+			const key = this.app.metadataCache.getFileCache(file)?.frontmatter?.githubDiscussionId;
+			if (key && syncState[key] && !planned.has(key)) {
+				files.set(key, file);
+			}
+		}
+		const unplanned = new Map<SyncItem, string>();
+		if (files.size === 0) return unplanned;
+
+		const fingerprints = await this.commentsClient(profile).getCommentsFingerprints([...files.keys()]);
+		const manifest = syncManifest(syncState);
+		for (const [key, fingerprint] of fingerprints) {
+			if (!manifest.commentsChanged(key, fingerprint)) continue;
+			const local = await this.readNote(files.get(key)!);
+			if (hashContent(local.content) === syncState[key].hash) {
+				unplanned.set({ profile, key, slug: local.frontMatter.slug, status: 'unchanged', local }, fingerprint);
+			}
+		}
+		return unplanned;
+	}
 
-		new Setting(containerEl)
-			.setName("Make MD Plugin Installed?")
-			.setDesc("Set to true if using Make MD, else leave false")
-			.addToggle(toggle => {
-				toggle.setValue(this.plugin.settings.makeMd)
-					.onChange(async (value) => {
-						this.plugin.settings.makeMd = value;
-						await this.plugin.saveSettings();
-					})
-			});
+	private commentsClient(profile: OGDProfile) {
+		return githubClient({
+			transport: this.transport(profile),
+			repo: { owner: profile.owner, name: profile.repo },
+			mappings: { tagLabelPrefix: profile.tagLabelPrefix, seriesLabelPrefix: profile.seriesLabelPrefix }
+		});
+	}
 
-		new Setting(containerEl)
-			.setName("Repo Owner")
-			.setDesc("Github User who owns the repo")
-			.addText(tc => {
-				tc.setValue(this.plugin.settings.owner)
-					.onChange(async (value) => {
-						this.plugin.settings.owner = value;
-						await this.plugin.saveSettings();
-					})
-			});
+	private async fetchComments(profile: OGDProfile, discussionId: string): Promise<GitHubComment[]> {
+		return await this.commentsClient(profile).getComments(discussionId);
+	}
 
-		new Setting(containerEl)
-			.setName("Repo Name")
-			.setDesc("Github Repo Name")
-			.addText(tc => {
-				tc.setValue(this.plugin.settings.repo)
-					.onChange(async (value) => {
-						this.plugin.settings.repo = value;
-						await this.plugin.saveSettings();
-					})
-			})
+	/**
+	 * Writes the comments to `<note>.comments.md` next to the note. Notes without
+	 * comments get no file, but an existing file is still kept up to date.
+	 */
+	private async writeCommentsFile(file: TFile, title: string, url: string, comments: GitHubComment[]) {
+		const path = commentsFilePath(file.path);
+		const existing = this.app.vault.getAbstractFileByPath(path);
+		if (comments.length === 0 && !existing) return;
+
+		const rendered = comments.length > 0 ? renderComments(comments, date => this.formatDateTime(date)) : 'No comments yet.';
+		const content = `# Comments on [${title}](${url})\n\n${rendered}\n`;
+		if (existing instanceof TFile) {
+			await this.app.vault.modify(existing, content);
+		} else {
+			await this.app.vault.create(path, content);
+		}
+	}
 
-		new Setting(containerEl)
-			.setName("Blog Post Category")
-			.setDesc("Optional")
-			.addText(tc => {
-				tc.setValue(this.plugin.settings.blogPostCategory)
-					.onChange(async (value) => {
-						this.plugin.settings.blogPostCategory = value;
-						await this.plugin.saveSettings();
-					})
-			})
+	private commentsFile(file: TFile): TFile | undefined {
+		const comments = this.app.vault.getAbstractFileByPath(commentsFilePath(file.path));
+		return comments instanceof TFile ? comments : undefined;
+	}
 
-		new Setting(containerEl)
-			.setName("Draft Label")
-			.setDesc("Optional")
-			.addText(tc => {
-				tc.setValue(this.plugin.settings.draftLabel)
-					.onChange(async (value) => {
-						this.plugin.settings.draftLabel = value;
-						await this.plugin.saveSettings();
-					})
-			})
+	/**
+	 * Renames a note and its comments file along with it, unless a file already
+	 * has the new name of the comments file.
+	 */
+	private async renameWithComments(file: TFile, path: string) {
+		const comments = this.commentsFile(file);
+		await this.app.fileManager.renameFile(file, path);
+		if (comments && !this.app.vault.getAbstractFileByPath(commentsFilePath(path))) {
+			await this.app.fileManager.renameFile(comments, commentsFilePath(path));
+		}
+	}
 
-		new Setting(containerEl)
-			.setName("Tag Label Prefix")
-			.setDesc("Optional")
-			.addText(tc => {
-				tc.setValue(this.plugin.settings.tagLabelPrefix)
-					.onChange(async (value) => {
-						this.plugin.settings.tagLabelPrefix = value;
-						await this.plugin.saveSettings();
-					})
-			})
+	private formatDateTime(date: Date): string {
+		return moment(date).format(`${this.settings.localDateFormat} HH:mm`);
+	}
 
-		new Setting(containerEl)
-			.setName("Series Label Prefix")
-			.setDesc("Optional")
-			.addText(tc => {
-				tc.setValue(this.plugin.settings.seriesLabelPrefix)
-					.onChange(async (value) => {
-						this.plugin.settings.seriesLabelPrefix = value;
-						await this.plugin.saveSettings();
-					})
-			})
+	/**
+	 * Leaves out the removals of a profile when more than a handful of its posts
+	 * went missing on one side at once, as after changing its articles folder or
+	 * category, unless the user confirms they were really deleted.
+	 */
+	private async withoutMassRemovals(items: SyncItem[]): Promise<SyncItem[]> {
+		const refused = new Set<SyncItem>();
+		for (const profile of Array.from(new Set(items.map(item => item.profile)))) {
+			for (const status of ['local-deleted', 'remote-deleted'] as SyncStatus[]) {
+				const removals = items.filter(item => item.profile === profile && item.status === status);
+				if (removals.length <= MASS_REMOVAL_LIMIT) continue;
+				const question = status === 'local-deleted'
+					? `${removals.length} synced notes of ${profile.name} are missing from ${profile.articlesDir}. If the folder was not moved or renamed, list their discussions for removal?`
+					: `${removals.length} discussions of ${profile.name} are missing from GitHub. If the repository or category did not change, list their notes for removal?`;
+				const confirmed = await new Promise<boolean>(resolve => new OGDModal(this.app, question, resolve).open());
+				if (!confirmed) {
+					removals.forEach(item => refused.add(item));
+					new Notice(`OGD: Left ${removals.length} ${status === 'local-deleted' ? 'discussions' : 'notes'} of ${profile.name} alone`);
+				}
+			}
+		}
+		return items.filter(item => !refused.has(item));
+	}
+
+	/**
+	 * Whether the remote delete policy still has something to do to the discussion
+	 * of a deleted note.
+	 */
+	private needsRemoval(remote: GitHubPost): boolean {
+		switch (this.settings.remoteDeletePolicy) {
+			case 'close':
+				return !remote.closed;
+			case 'lock':
+				return !remote.locked;
+			case 'delete':
+				return true;
+			default:
+				return false;
+		}
+	}
+
+	/**
+	 * Applies the remote delete policy to the discussion of a note deleted in the
+	 * vault. Closed and locked discussions keep their sync record, so they are not
+	 * downloaded again.
+	 */
+	private async removeDiscussion({ profile, key, remote }: SyncItem) {
+		const { syncState, scheduled } = this.stateOf(profile);
+		const manifest = syncManifest(syncState);
+		switch (this.settings.remoteDeletePolicy) {
+			case 'close': {
+				const result = await this.transport(profile).request(CLOSE_DISCUSSION_MUTATION, { discussionId: remote!.id });
+				manifest.recordRemote(key, { updated: new Date(result.closeDiscussion.discussion.updatedAt) });
+				break;
+			}
+			case 'lock': {
+				const result = await this.transport(profile).request(LOCK_DISCUSSION_MUTATION, { lockableId: remote!.id });
+				manifest.recordRemote(key, { updated: new Date(result.lockLockable.lockedRecord.updatedAt) });
+				break;
+			}
+			case 'delete':
+				await this.transport(profile).request(DELETE_DISCUSSION_MUTATION, { id: remote!.id });
+				manifest.forget(key);
+				delete scheduled[remote!.id];
+				break;
+		}
+	}
+
+	/**
+	 * Applies the local delete policy to the note of a discussion deleted on GitHub.
+	 */
+	private async removeNote({ profile, key, local }: SyncItem) {
+		const { file } = local!;
+		switch (this.settings.localDeletePolicy) {
+			case 'archive': {
+				const archiveDir = this.settings.archiveDir;
+				if (!this.app.vault.getAbstractFileByPath(archiveDir)) {
+					await this.app.vault.createFolder(archiveDir);
+				}
+				// A note archived before under the same name is kept, this one gets a number
+				let archived = `${archiveDir}/${file.name}`;
+				for (let n = 1; this.app.vault.getAbstractFileByPath(archived); n++) {
+					archived = `${archiveDir}/${file.basename} ${n}.${file.extension}`;
+				}
+				await this.renameWithComments(file, archived);
+				break;
+			}
+			case 'delete': {
+				const comments = this.commentsFile(file);
+				await this.app.fileManager.trashFile(file);
+				if (comments) {
+					await this.app.fileManager.trashFile(comments);
+				}
+				break;
+			}
+			default:
+				// Keep the note without its discussion, so the next upload creates a new one
+				await this.app.vault.process(file, content => updateFrontMatter(content, (frontMatter) => {
+					delete frontMatter['githubDiscussionId'];
+					delete frontMatter['githubDiscussionNumber'];
+					delete frontMatter['githubUrl'];
+				}));
+		}
+		const { syncState, scheduled } = this.stateOf(profile);
+		syncManifest(syncState).forget(key);
+		delete scheduled[key];
+	}
+
+	/**
+	 * Whether syncing the post would change nothing: the fields and body shown in
+	 * the review dialog are the same in the note and the discussion.
+	 */
+	private sameContent(item: SyncItem): boolean {
+		const { fields, body } = this.toReviewItem(item, 'download');
+		return fields.every(field => !field.changed) && body.every(row => row.type === 'equal' || row.type === 'skip');
+	}
+
+	private toReviewItem(item: SyncItem, direction: 'upload' | 'download'): ReviewItem<SyncItem> {
+		const { profile, local, remote } = item;
+		const fields = this.fieldMapper();
+		// `draft: false` and no draft field both mean published
+		const localFields = {
+			...local?.frontMatter,
+			draft: local?.frontMatter.draft === true || undefined,
+			tags: local && this.noteTags(local),
+			series: local && this.hasSeries(local.frontMatter) ? seriesId(local.frontMatter.series) : undefined
+		};
+		let remoteFields: Record<string, unknown> = {};
+		let remoteBody = '';
+		if (remote) {
+			const { frontMatter: ghFrontMatter, body } = this.parseDiscussion(remote);
+			remoteBody = this.fromGithubMarkdown(body, local?.file.path ?? `${profile.articlesDir}/${remote.title}.md`);
+			remoteFields = fields.toLocal(ghFrontMatter, remote.labels);
+			remoteFields['slug'] = ghFrontMatter.slug;
+			remoteFields['draft'] = this.isRemoteDraft(profile, remote) || undefined;
+			remoteFields['tags'] = remote.tags;
+			remoteFields['series'] = remote.series?.id;
+			remoteFields['seriesOrder'] = remote.series ? ghFrontMatter.seriesOrder : undefined;
+		}
+		const localBody = local?.body ?? '';
+
+		let action: string;
+		if (item.status === 'local-deleted') {
+			action = { keep: 'Keep discussion', close: 'Close discussion', lock: 'Lock discussion', delete: 'Delete discussion' }[this.settings.remoteDeletePolicy];
+		} else if (item.status === 'remote-deleted') {
+			action = { unlink: 'Unlink note', archive: 'Archive note', delete: 'Delete note' }[this.settings.localDeletePolicy];
+		} else if (direction === 'upload') {
+			action = remote ? 'Update discussion' : 'Create discussion';
+		} else {
+			action = local ? 'Update note' : 'Create note';
+		}
+
+		const title = local?.file.basename ?? remote!.title;
+		return {
+			title: this.settings.profiles.length > 1 ? `${profile.name} › ${title}` : title,
+			action,
+			conflict: item.status === 'conflict',
+			destructive: item.status === 'local-deleted' || item.status === 'remote-deleted',
+			fields: diffFields(['slug', 'draft', ...fields.syncedFields(), 'tags', 'series', 'seriesOrder'], localFields, remoteFields),
+			body: sideBySide(diffLines(localBody, remoteBody)),
+			target: item
+		};
+	}
+
+	/**
+	 * Plans each of `profiles` in turn, or only the profile of `only` when given.
+	 */
+	private async planProfiles(profiles: OGDProfile[], incremental: boolean, only?: TFile): Promise<SyncItem[]> {
+		const plan: SyncItem[] = [];
+		for (const profile of only ? [this.profileFor(only)!] : profiles) {
+			plan.push(...await this.planSync(profile, incremental, only));
+		}
+		return plan;
+	}
+
+	/**
+	 * Pairs every local note of a profile with its discussion by slug and classifies
+	 * each pair against the sync state recorded the last time it was uploaded or
+	 * downloaded. When `incremental` is set only discussions updated after the
+	 * profile's download cursor are fetched, and only those are planned.
+	 */
+	private async planSync(profile: OGDProfile, incremental: boolean, only?: TFile): Promise<SyncItem[]> {
+		const { syncState, syncCursor } = this.stateOf(profile);
+		const lastModified = incremental ? syncCursor : undefined;
+		const ghArticles = await fetchGithubDiscussions(this.transport(profile), profile, { lastModified, tagAliases: this.settings.tagAliases });
+
+		const remoteById = new Map<string, GitHubPost>(ghArticles.map(post => [post.id, post]));
+		const remoteBySlug = new Map<string, GitHubPost>();
+		for (const post of ghArticles) {
+			remoteBySlug.set(this.remoteSlug(post), post);
+		}
+
+		const localNotes: LocalNote[] = [];
+		for (const file of only ? [only] : this.getArticleFiles(profile)) {
+			const note = await this.readNote(file);
+			if (note.frontMatter?.slug || note.frontMatter?.githubDiscussionId) {
+				localNotes.push(note);
+			}
+		}
+		if (only && localNotes.length === 0) {
+			throw new Error(`${only.basename} has no slug in its frontmatter`);
+		}
+
+		const manifest = syncManifest(syncState);
+		const plan: SyncItem[] = [];
+		const paired = new Set<GitHubPost>();
+		const seriesParts = new Map<string, SeriesPart[]>();
+		const addItem = (local?: LocalNote, remote?: GitHubPost) => {
+			const slug = local?.frontMatter.slug ?? this.remoteSlug(remote!);
+			const key = remote?.id ?? local?.frontMatter.githubDiscussionId ?? slug;
+			// Sync state used to be keyed by slug before discussion IDs were stored locally
+			if (key !== slug) {
+				manifest.rename(slug, key);
+			}
+			let status = manifest.classify(
+				key,
+				local && { hash: hashContent(local.content), mtime: local.file.stat.mtime },
+				remote
+			);
+			// Without a record only identical posts are known to be in sync
+			if (status === 'conflict' && !syncState[key] && this.sameContent({ profile, key, slug, status, local, remote })) {
+				this.recordSync(profile, key, local!, remote!.updated.toISOString());
+				status = 'unchanged';
+			}
+			// A renamed or moved note only changes the discussion title or category, and
+			// adding, removing or reordering another part of a series only its navigation
+			if (status === 'unchanged' && local && remote
+				&& (local.file.basename !== remote.title || this.changedCategory(profile, local, remote)
+					|| this.staleNavigation(profile, local, remote, seriesParts))) {
+				status = 'local-changed';
+			}
+			plan.push({ profile, key, slug, status, local, remote });
+		};
+
+		// Pair by the discussion ID stored in the note, falling back to the slug for
+		// notes that have never been synced, so renaming a slug updates the discussion
+		for (const local of localNotes) {
+			const { githubDiscussionId, slug } = local.frontMatter;
+			const remote = (githubDiscussionId && remoteById.get(githubDiscussionId))
+				|| (!githubDiscussionId && slug ? remoteBySlug.get(slug) : undefined);
+			if (remote) {
+				paired.add(remote);
+				addItem(local, remote);
+			} else if (!lastModified || only) {
+				// Notes whose discussion was not fetched have not changed remotely since the cursor
+				addItem(local);
+			}
+		}
+
+		if (!only) {
+			for (const remote of ghArticles) {
+				if (!paired.has(remote)) {
+					addItem(undefined, remote);
+				}
+			}
+		}
+
+		// Discussions can be missing from search results for a while after they are
+		// created or moved, so make sure one is really gone before calling it deleted
+		for (const item of plan.filter(item => item.status === 'remote-deleted')) {
+			// Records from before discussion IDs were stored locally can only be told apart by slug
+			if (!item.local!.frontMatter.githubDiscussionId) {
+				item.status = 'local-only';
+				continue;
+			}
+			try {
+				const result = await this.transport(profile).request(GET_DISCUSSION, { id: item.key });
+				if (result.node) {
+					item.status = 'unchanged';
+				}
+			} catch (error) {
+				if (!(error instanceof GitHubNotFoundError)) throw error;
+			}
+		}
+
+		return plan;
+	}
+
+	/**
+	 * Slug from a discussion's frontmatter, or one derived from its title when it has none.
+	 */
+	private remoteSlug(post: GitHubPost): string {
+		return this.parseDiscussion(post).frontMatter.slug ?? slugify(post.title, { lower: true, strict: true });
+	}
+
+	/**
+	 * Frontmatter and body of a discussion. A discussion whose YAML is broken is
+	 * treated as having no frontmatter rather than failing the whole sync.
+	 */
+	private parseDiscussion(post: GitHubPost): FrontMatterDocument {
+		try {
+			return parseFrontMatter(post.body);
+		} catch (error) {
+			console.warn(`OGD: ignoring frontmatter of discussion #${post.githubDiscussionNumber}:`, error);
+			return { hasFrontMatter: false, frontMatter: {}, yaml: '', body: post.body, eol: '\n', raw: '' };
+		}
+	}
+
+	private reportSkipped(plan: SyncItem[], status: SyncStatus, reason: string) {
+		const slugs = plan.filter(item => item.status === status).map(item => item.slug);
+		if (slugs.length > 0) {
+			new Notice(`OGD: ${slugs.length} posts ${reason}: ${slugs.join(", ")}`, 10000);
+		}
+	}
+
+	private recordSync(profile: OGDProfile, key: string, local: LocalNote, remoteUpdated: string) {
+		syncManifest(this.stateOf(profile).syncState).record(
+			key,
+			{ hash: hashContent(local.content), mtime: local.file.stat.mtime },
+			{ updated: new Date(remoteUpdated) }
+		);
+	}
+
+	/**
+	 * Opens the discussion of `file` in the browser, from the `githubUrl` in its
+	 * frontmatter when it has one. Otherwise the discussion is looked up by its ID,
+	 * or among the profile's discussions by slug for notes without one.
+	 */
+	private async openDiscussion(file: TFile) {
+		const frontMatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		if (typeof frontMatter?.githubUrl === 'string' && frontMatter.githubUrl !== '') {
+			window.open(frontMatter.githubUrl);
+			return;
+		}
+		try {
+			if (frontMatter?.githubDiscussionId) {
+				try {
+					const result = await this.transport(this.profileFor(file)!).request(GET_DISCUSSION, { id: frontMatter.githubDiscussionId });
+					if (result.node?.url) {
+						window.open(result.node.url);
+						return;
+					}
+				} catch (error) {
+					// A deleted discussion is reported below like one never uploaded
+					if (!(error instanceof GitHubNotFoundError)) throw error;
+				}
+			}
+			const [item] = await this.planProfiles([], false, file);
+			if (!item?.remote) {
+				new Notice(`OGD: ${file.basename} has not been uploaded to Github yet`);
+				return;
+			}
+			window.open(item.remote.githubUrl);
+		} catch (error) {
+			console.error('Error opening discussion:', error);
+			new Notice(`OGD: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
+
+	/**
+	 * Lists the comments on the discussion of `file` with actions to reply to and moderate them.
+	 */
+	private async showComments(file: TFile) {
+		const profile = this.profileFor(file)!;
+		const passing = await this.checkSettings([profile]);
+		if (!passing) return;
+
+		try {
+			const [item] = await this.planSync(profile, false, file);
+			if (!item?.remote) {
+				new Notice(`OGD: ${file.basename} has not been uploaded to Github yet`);
+				return;
+			}
+			const post = item.remote;
+			const comments = await this.fetchComments(profile, post.id);
+			new OGDCommentsModal(this.app, post, comments, date => this.formatDateTime(date), {
+				reply: (replyTo) => new OGDReplyModal(this.app, replyTo ? `Reply to ${replyTo.author?.username ?? 'ghost'}` : `Comment on ${post.title}`, body =>
+					this.moderate(item, 'Comment posted', ADD_DISCUSSION_COMMENT_MUTATION, { discussionId: post.id, body, replyToId: replyTo?.id ?? null })).open(),
+				markAsAnswer: (comment) =>
+					this.moderate(item, 'Comment marked as the answer', MARK_COMMENT_AS_ANSWER_MUTATION, { id: comment.id }),
+				hide: (comment) => new OGDModal(this.app, `Hide the comment by ${comment.author?.username ?? 'ghost'} as spam?`, approve => {
+					if (approve) this.moderate(item, 'Comment hidden', MINIMIZE_COMMENT_MUTATION, { subjectId: comment.id });
+				}).open(),
+				lock: () => new OGDModal(this.app, `Lock ${post.title}? Only collaborators can comment on a locked discussion.`, approve => {
+					if (approve) this.moderate(item, 'Discussion locked', LOCK_DISCUSSION_MUTATION, { lockableId: post.id });
+				}).open(),
+			}).open();
+		} catch (error) {
+			console.error('Error loading comments:', error);
+			new Notice(`OGD: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
+
+	/**
+	 * Runs a comment or lock mutation on the discussion of `item`, then shows its comments again.
+	 */
+	private async moderate(item: SyncItem, done: string, query: string, variables: Record<string, unknown>) {
+		try {
+			await this.transport(item.profile).request(query, variables);
+			// Moderating touches the discussion's updatedAt, which must not read as an edit to download.
+			// A discussion that already had edits keeps them pending.
+			if (item.status === 'unchanged' || item.status === 'local-changed') {
+				const result = await this.transport(item.profile).request(GET_DISCUSSION, { id: item.remote!.id });
+				syncManifest(this.stateOf(item.profile).syncState).recordRemote(item.key, { updated: new Date(result.node.updatedAt) });
+				await this.saveSettings();
+			}
+			new Notice(`OGD: ${done}`);
+			this.logSync('info', `${done} on ${item.remote!.title}`);
+		} catch (error) {
+			console.error('Error moderating comments:', error);
+			new Notice(`OGD: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+		if (item.local) {
+			await this.showComments(item.local.file);
+		}
+	}
+
+	private async openDashboard() {
+		const [existing] = this.app.workspace.getLeavesOfType(DASHBOARD_VIEW_TYPE);
+		const leaf = existing ?? this.app.workspace.getLeaf('tab');
+		if (!existing) {
+			await leaf.setViewState({ type: DASHBOARD_VIEW_TYPE, active: true });
+		}
+		await this.app.workspace.revealLeaf(leaf);
+	}
+
+	/**
+	 * Shows the outcome of a finished sync in the open dashboards from the plan it
+	 * ran, without fetching anything: `applied` posts now stand where syncing them
+	 * left them and the others keep their planned status.
+	 */
+	private refreshDashboard(plan: SyncItem[], applied: SyncItem[]) {
+		const rows: DashboardRow[] = [];
+		const removed: DashboardRow[] = [];
+		for (const item of plan) {
+			const status = applied.includes(item) ? this.appliedStatus(item) : item.status;
+			if (status) {
+				rows.push(this.dashboardRow(item, status));
+			} else {
+				removed.push(this.dashboardRow(item, item.status));
+			}
+		}
+		for (const leaf of this.app.workspace.getLeavesOfType(DASHBOARD_VIEW_TYPE)) {
+			if (leaf.view instanceof OGDDashboardView) {
+				leaf.view.update(rows, removed);
+			}
+		}
+	}
+
+	/**
+	 * Status of a post once its planned change was applied, or undefined when the
+	 * post is no longer synced at all.
+	 */
+	private appliedStatus(item: SyncItem): SyncStatus | undefined {
+		switch (item.status) {
+			case 'local-deleted':
+				// Closed and locked discussions keep their record
+				return this.settings.remoteDeletePolicy === 'delete' ? undefined : 'local-deleted';
+			case 'remote-deleted':
+				// An unlinked note is uploaded as a new discussion next time; others leave the articles directory
+				return this.settings.localDeletePolicy === 'unlink' ? 'local-only' : undefined;
+			default:
+				return 'unchanged';
+		}
+	}
+
+	/**
+	 * One row per post in the vault or on GitHub, for the dashboard.
+	 */
+	private async dashboardRows(): Promise<DashboardRow[]> {
+		const profiles = this.configuredProfiles();
+		if (profiles.length === 0) {
+			throw new Error('add a Github token, owner and repo to a profile in the plugin settings');
+		}
+		const plan = await this.planProfiles(profiles, false);
+		return plan.map(item => this.dashboardRow(item, item.status));
+	}
+
+	private dashboardRow({ profile, key, slug, local, remote }: SyncItem, status: SyncStatus): DashboardRow {
+		return {
+			key,
+			profile: profile.name,
+			slug,
+			status,
+			title: local?.file.basename ?? remote!.title,
+			path: local?.file.path,
+			localModified: local && new Date(local.file.stat.mtime),
+			remoteUpdated: remote?.updated,
+			tags: local ? this.noteTags(local) : remote!.tags,
+			series: local ? local.frontMatter.series : remote!.series?.id,
+			discussionNumber: remote?.githubDiscussionNumber ?? local?.frontMatter.githubDiscussionNumber,
+			url: remote?.githubUrl
+		};
+	}
+
+	private async showSyncStatus() {
+		const profiles = this.settings.profiles;
+		const passing = await this.checkSettings(profiles);
+		if (!passing) return;
+
+		try {
+			const plan = await this.planProfiles(profiles, false);
+			const details: string[] = [];
+			for (const profile of profiles) {
+				const prefix = profiles.length > 1 ? `${profile.name}: ` : '';
+				details.push(`${prefix}Last download cursor: ${this.stateOf(profile).syncCursor ?? 'none (next download fetches everything)'}`);
+				const rateLimit = this.transport(profile).rateLimit();
+				if (rateLimit) {
+					details.push(`${prefix}API requests remaining: ${rateLimit.remaining}/${rateLimit.limit}, resets at ${rateLimit.resetAt.toLocaleTimeString()}`);
+				}
+			}
+			new OGDStatusModal(this.app, SYNC_STATUS_LABELS.map(([status, label]) => ({
+				label,
+				entries: plan.filter(item => item.status === status).map(({ profile, local, remote }) =>
+					`${profiles.length > 1 ? `${profile.name} › ` : ''}${local?.file.basename ?? remote!.title}`)
+			})), details).open();
+		} catch (error) {
+			console.error('Error fetching sync status:', error);
+			new Notice(`OGD: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
+
+	/**
+	 * The profile whose articles directory holds `file`, the innermost one when
+	 * directories are nested. Undefined for files that are not blog posts.
+	 */
+	private profileFor(file: TFile): OGDProfile | undefined {
+		// Comments written next to a post are not posts themselves
+		if (file.extension !== 'md' || file.basename.endsWith('.comments')) return undefined;
+		return this.settings.profiles
+			.filter(profile => file.path.startsWith(profile.articlesDir + "/")
+				// Make.md keeps a folder note named after the folder itself
+				&& !(this.settings.makeMd && file.name === profile.articlesDir.split("/").last() + ".md"))
+			.sort((a, b) => b.articlesDir.length - a.articlesDir.length)[0];
+	}
+
+	/**
+	 * Category a note belongs to: the one named by its subfolder of the profile's
+	 * folder or by its `category` field, and the blog post category otherwise.
+	 */
+	private categoryOf(profile: OGDProfile, note: LocalNote): string {
+		if (profile.categories.length === 0) return profile.blogPostCategory;
+		if (profile.categoryLocation === 'field') {
+			return note.frontMatter.category ?? profile.blogPostCategory;
+		}
+		const subfolder = note.file.path.slice(profile.articlesDir.length + 1).split('/')[0];
+		return profile.categories.includes(subfolder) && subfolder !== note.file.name ? subfolder : profile.blogPostCategory;
+	}
+
+	private changedCategory(profile: OGDProfile, note: LocalNote, post: GitHubPost): boolean {
+		return profile.categories.length > 0 && this.categoryOf(profile, note) !== post.category.name;
+	}
+
+	/**
+	 * Folder new notes of `category` are downloaded into, created when missing.
+	 */
+	private async categoryFolder(profile: OGDProfile, category: string): Promise<string> {
+		if (profile.categories.length === 0 || profile.categoryLocation === 'field' || category === profile.blogPostCategory) {
+			return profile.articlesDir;
+		}
+		const folder = `${profile.articlesDir}/${category}`;
+		if (!this.app.vault.getAbstractFileByPath(folder)) {
+			await this.app.vault.createFolder(folder);
+		}
+		return folder;
+	}
+
+	private isArticle(file: TFile): boolean {
+		return this.profileFor(file) !== undefined;
+	}
+
+	private isDraft(file: TFile): boolean {
+		return this.app.metadataCache.getFileCache(file)?.frontmatter?.draft === true;
+	}
+
+	/**
+	 * Blog posts of `profile`, or of every profile when none is given.
+	 */
+	private getArticleFiles(profile?: OGDProfile): TFile[] {
+		return this.app.vault.getMarkdownFiles().filter(file => profile ? this.profileFor(file) === profile : this.isArticle(file));
+	}
+
+	private configuredProfiles(): OGDProfile[] {
+		return this.settings.profiles.filter(profile => this.getToken(profile) && profile.owner && profile.repo);
+	}
+
+	private stateOf(profile: OGDProfile): ProfileState {
+		if (!this.profileState[profile.id]) {
+			this.profileState[profile.id] = { syncState: {}, scheduled: {} };
+		}
+		return this.profileState[profile.id];
+	}
+
+	private async readNote(file: TFile): Promise<LocalNote> {
+		const content = await this.app.vault.read(file);
+		try {
+			const { frontMatter, body, eol } = parseFrontMatter(content);
+			// Downloaded comments stay in the vault
+			return { file, content, frontMatter, body: stripCommentsSection(body), eol };
+		} catch (error) {
+			throw new Error(`${file.path}: ${error instanceof Error ? error.message : error}`);
+		}
+	}
+
+	/**
+	 * Tags of a note as they are uploaded: its frontmatter tags, and its inline
+	 * tags when those are synced, normalized and with aliases replaced. Tags
+	 * that normalize to nothing are left out with a notice.
+	 */
+	private noteTags(note: LocalNote): string[] {
+		const tags = frontMatterTags(note.frontMatter.tags);
+		if (this.settings.inlineTags) {
+			tags.push(...inlineTags(note.body));
+		}
+		return normalizeTags(tags, this.settings.tagAliases, tag => {
+			if (this.unusableTags.has(tag)) return;
+			this.unusableTags.add(tag);
+			new Notice(`OGD: tag "${tag}" of ${note.file.basename} has no letters or numbers and is not synced`);
+		});
+	}
+
+	private labelsFor(profile: OGDProfile, note: LocalNote): string[] {
+		const { frontMatter } = note;
+		const labels = this.noteTags(note).map(tag => `${profile.tagLabelPrefix}${tag}`);
+		if (this.hasSeries(frontMatter)) {
+			labels.push(`${profile.seriesLabelPrefix}${seriesId(frontMatter.series)}`);
+		}
+		if (this.needsDraftLabel(frontMatter) && profile.draftLabel) {
+			labels.push(profile.draftLabel);
+		}
+		labels.push(...this.fieldMapper().labelsFor(frontMatter));
+		return labels;
+	}
+
+	private fieldMapper() {
+		const { localDateFormat, remoteDateFormat, manageUpdatedField, updatedField } = this.settings;
+		const mappings = [...this.settings.fieldMappings];
+		const dateFields = [...this.settings.dateFields];
+		// The managed `updated` field always travels with the discussion
+		if (manageUpdatedField && updatedField) {
+			dateFields.push(updatedField);
+			if (!mappings.some(mapping => mapping.local === updatedField)) {
+				mappings.push({ local: updatedField, remote: updatedField, target: 'frontmatter' });
+			}
+		}
+
+		const transforms: Record<string, FieldTransform> = {};
+		for (const field of dateFields) {
+			transforms[field] = dateTransform(localDateFormat, remoteDateFormat);
+		}
+		return fieldMapper(mappings, this.settings.syncUnmappedFields, transforms);
+	}
+
+	private toDiscussionBody(note: LocalNote, body = note.body): string {
+		let mapped: Record<string, unknown>;
+		try {
+			mapped = this.fieldMapper().toRemote(note.frontMatter);
+		} catch (error) {
+			throw new Error(`${note.file.path}: ${error instanceof Error ? error.message : error}`);
+		}
+
+		// Prepare frontmatter for GitHub
+		const githubFrontMatter = {
+			slug: note.frontMatter.slug,
+			// The order of a part only means something with its series label
+			...(this.hasSeries(note.frontMatter) && note.frontMatter.seriesOrder !== undefined ? { seriesOrder: note.frontMatter.seriesOrder } : {}),
+			...mapped
+		};
+
+		return stringifyFrontMatter(githubFrontMatter, body, note.eol);
+	}
+
+	private toNoteContent(profile: OGDProfile, post: GitHubPost, path: string, localFrontMatter: any = {}, commentsSection?: string): string {
+		const { frontMatter: ghFrontMatter, body: ghBody, eol } = this.parseDiscussion(post);
+		const body = this.fromGithubMarkdown(ghBody, path);
+
+		const fields = this.fieldMapper();
+		const mapped = fields.toLocal(ghFrontMatter, post.labels);
+		const frontMatter = Object.assign({}, localFrontMatter, mapped);
+		// A synced field removed on GitHub is removed from the note too, so the next upload does not bring it back
+		for (const key of fields.syncedFields()) {
+			if (!(key in mapped)) {
+				delete frontMatter[key];
+			}
+		}
+		frontMatter['slug'] = ghFrontMatter.slug ?? localFrontMatter.slug ?? this.remoteSlug(post);
+		frontMatter['githubDiscussionId'] = post.githubDiscussionId;
+		frontMatter['githubDiscussionNumber'] = post.githubDiscussionNumber;
+		frontMatter['githubUrl'] = post.githubUrl;
+		if (this.isRemoteDraft(profile, post)) {
+			frontMatter['draft'] = true;
+		} else if (frontMatter['draft'] !== undefined) {
+			frontMatter['draft'] = false;
+		}
+		// Tags written inline stay in the body only
+		const inline = this.settings.inlineTags ? normalizeTags(inlineTags(body), this.settings.tagAliases) : [];
+		frontMatter['tags'] = (post.tags || []).filter(tag => !inline.includes(tag));
+		if (profile.categories.length > 0 && profile.categoryLocation === 'field') {
+			frontMatter['category'] = post.category.name;
+		}
+		if (post.series) {
+			frontMatter['series'] = post.series.id;
+			if (ghFrontMatter.seriesOrder !== undefined) {
+				frontMatter['seriesOrder'] = ghFrontMatter.seriesOrder;
+			}
+		} else {
+			delete frontMatter['series'];
+			delete frontMatter['seriesOrder'];
+		}
+
+		return stringifyFrontMatter(frontMatter, withCommentsSection(body, commentsSection, eol), eol);
+	}
+
+	/**
+	 * Runs the enabled Markdown transforms so Obsidian-only syntax renders on GitHub.
+	 * Blog posts linked from the body that have no URL yet are added to `unpublished`.
+	 */
+	private async toGithubMarkdown(body: string, file: TFile, unpublished: Set<string>): Promise<string> {
+		// Transforms run synchronously, so the notes to flatten into the body are read up front
+		const embedded = new Map<string, string>();
+		for (const { linkpath } of findEmbeds(body)) {
+			const target = this.app.metadataCache.getFirstLinkpathDest(linkpath, file.path);
+			if (target?.extension === 'md' && !this.isArticle(target) && !embedded.has(target.path)) {
+				const content = await this.app.vault.cachedRead(target);
+				try {
+					embedded.set(target.path, parseFrontMatter(content).body);
+				} catch (error) {
+					embedded.set(target.path, content);
+				}
+			}
+		}
+
+		return this.markdownPipeline().toRemote(body, {
+			embed: (linkpath, subpath) => {
+				const target = this.app.metadataCache.getFirstLinkpathDest(linkpath, file.path);
+				if (target?.extension !== 'md') return undefined;
+				const text = embedded.get(target.path);
+				// Embedded blog posts become links to the post instead
+				return text === undefined ? `[[${linkpath}${subpath}]]` : noteSection(text, subpath);
+			},
+			link: (linkpath) => {
+				const target = linkpath ? this.app.metadataCache.getFirstLinkpathDest(linkpath, file.path) : null;
+				if (!target || !this.isArticle(target)) return undefined;
+				const url = this.postUrl(target);
+				if (!url) unpublished.add(target.basename);
+				return url;
+			}
+		});
+	}
+
+	private fromGithubMarkdown(body: string, path: string): string {
+		const posts = this.postsByUrl();
+		return this.localizeAttachments(this.markdownPipeline().toLocal(stripSeriesNavigation(body), {
+			note: (url) => {
+				const file = posts.get(url.replace(/[/#]+$/, ''));
+				return file && this.app.metadataCache.fileToLinktext(file, path, true);
+			}
+		}), path);
+	}
+
+	/**
+	 * Where readers find the post published from `file`: the site URL template
+	 * filled in with its slug, or else its discussion. Undefined until it is uploaded.
+	 */
+	private postUrl(file: TFile): string | undefined {
+		const frontMatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		if (!frontMatter?.githubDiscussionId) return undefined;
+		const siteUrlTemplate = this.profileFor(file)?.siteUrlTemplate;
+		if (siteUrlTemplate && frontMatter.slug) {
+			return siteUrlTemplate.replace(/\{slug\}/g, encodeURIComponent(frontMatter.slug));
+		}
+		return frontMatter.githubUrl;
+	}
+
+	/**
+	 * Blog notes by every URL a discussion may link to them with.
+	 */
+	private postsByUrl(): Map<string, TFile> {
+		const posts = new Map<string, TFile>();
+		for (const file of this.getArticleFiles()) {
+			const githubUrl = this.app.metadataCache.getFileCache(file)?.frontmatter?.githubUrl;
+			for (const url of [githubUrl, this.postUrl(file)]) {
+				if (url) posts.set(url.replace(/[/#]+$/, ''), file);
+			}
+		}
+		return posts;
+	}
+
+	private markdownPipeline() {
+		return markdownPipeline(MARKDOWN_TRANSFORMS, this.settings.markdownTransforms);
+	}
+
+	/**
+	 * Uploads the vault files the note embeds and returns its body with those
+	 * embeds pointing at the hosted copies. Embeds of notes, or of files that do
+	 * not exist, are left as they are.
+	 */
+	private async uploadAttachments(profile: OGDProfile, note: LocalNote): Promise<string> {
+		if (!this.settings.uploadAttachments) return note.body;
+
+		const uploader = githubContentsUploader({
+			auth: this.getToken(profile) ?? '',
+			repo: { owner: profile.owner, name: profile.repo },
+			branch: this.settings.attachmentBranch,
+			folder: this.settings.attachmentFolder
+		});
+		const urls = new Map<string, string>();
+		for (const embed of findEmbeds(note.body)) {
+			const file = this.resolveAttachment(embed.linkpath, note.file);
+			if (!file || urls.has(file.path)) continue;
+			try {
+				const url = await uploader.upload(file.name, await this.app.vault.readBinary(file));
+				urls.set(file.path, url);
+				this.attachmentIndex[url] = file.path;
+			} catch (error) {
+				throw new Error(`${note.file.path}: could not upload ${file.path}: ${error instanceof Error ? error.message : error}`);
+			}
+		}
+
+		return replaceEmbeds(note.body, embed => {
+			const file = this.resolveAttachment(embed.linkpath, note.file);
+			const url = file && urls.get(file.path);
+			return url ? hostedEmbed(embed, url, file.name) : undefined;
+		});
+	}
+
+	private resolveAttachment(linkpath: string, source: TFile): TFile | null {
+		const file = this.app.metadataCache.getFirstLinkpathDest(linkpath, source.path);
+		return file && file.extension !== 'md' ? file : null;
+	}
+
+	/**
+	 * Points links to attachments uploaded from this vault back at the local files.
+	 */
+	private localizeAttachments(body: string, sourcePath: string): string {
+		return replaceHostedEmbeds(body, url => {
+			const path = this.attachmentIndex[url];
+			const file = path ? this.app.vault.getAbstractFileByPath(path) : null;
+			return file instanceof TFile ? this.app.metadataCache.fileToLinktext(file, sourcePath, false) : undefined;
+		});
+	}
+
+	private labelManager(profile: OGDProfile): LabelManager {
+		return githubLabelManager({
+			transport: this.transport(profile),
+			repo: { owner: profile.owner, name: profile.repo },
+			styles: [
+				{ prefix: profile.tagLabelPrefix, color: profile.tagLabelColor, description: profile.tagLabelDescription },
+				{ prefix: profile.seriesLabelPrefix, color: profile.seriesLabelColor, description: profile.seriesLabelDescription }
+			]
+		});
+	}
+
+	private hasSeries(frontMatter: any): boolean {
+		return frontMatter?.series !== undefined && frontMatter.series !== null && frontMatter.series !== '';
+	}
+
+	/**
+	 * Notes of a profile belonging to the series, in order.
+	 */
+	private seriesParts(profile: OGDProfile, id: string): SeriesPart[] {
+		const parts: SeriesPart[] = [];
+		for (const file of this.getArticleFiles(profile)) {
+			const frontMatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+			if (!this.hasSeries(frontMatter) || seriesId(frontMatter!.series) !== id) continue;
+			const order = Number(frontMatter!.seriesOrder);
+			parts.push({
+				path: file.path,
+				title: file.basename,
+				order: frontMatter!.seriesOrder !== undefined && frontMatter!.seriesOrder !== null && isFinite(order) ? order : undefined,
+				url: this.postUrl(file)
+			});
+		}
+		return sortSeriesParts(parts);
+	}
+
+	/**
+	 * Whether the series navigation uploaded with a part is not the one it would be
+	 * uploaded with now. `partsCache` keeps the parts of each series for one plan.
+	 */
+	private staleNavigation(profile: OGDProfile, local: LocalNote, remote: GitHubPost, partsCache: Map<string, SeriesPart[]>): boolean {
+		if (!profile.seriesNavigation || !this.hasSeries(local.frontMatter)) return false;
+		const id = seriesId(local.frontMatter.series);
+		if (!partsCache.has(id)) {
+			partsCache.set(id, this.seriesParts(profile, id));
+		}
+		const parts = partsCache.get(id)!;
+		const index = parts.findIndex(part => part.path === local.file.path);
+		if (index < 0) return false;
+		const series = remote.series?.id === id ? remote.series : parseSeriesDescription(id);
+		return seriesNavigationOf(remote.body) !== seriesNavigation(series, parts, index);
+	}
+
+	/**
+	 * Name and description of every series of a profile, read from its series labels.
+	 */
+	private async seriesDetails(profile: OGDProfile, labels = this.labelManager(profile)): Promise<Map<string, GitHubSeries>> {
+		const details = new Map<string, GitHubSeries>();
+		for (const label of await labels.labels()) {
+			if (profile.seriesLabelPrefix && label.name.startsWith(profile.seriesLabelPrefix)) {
+				const id = seriesId(label.name.slice(profile.seriesLabelPrefix.length));
+				details.set(id, parseSeriesDescription(id, label.description));
+			}
+		}
+		return details;
+	}
+
+	/**
+	 * Writes an index note for each series of the profiles that keep them, listing
+	 * its parts in order. Notes are only written when their contents change.
+	 */
+	private async updateSeriesIndexes(profiles: OGDProfile[]) {
+		for (const profile of profiles.filter(profile => profile.seriesIndexDir)) {
+			const ids = new Set<string>();
+			for (const file of this.getArticleFiles(profile)) {
+				const frontMatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+				if (this.hasSeries(frontMatter)) {
+					ids.add(seriesId(frontMatter!.series));
+				}
+			}
+			if (ids.size === 0) continue;
+
+			// Without a connection the series are listed under their IDs
+			let details = new Map<string, GitHubSeries>();
+			if (this.getToken(profile) && profile.owner && profile.repo) {
+				try {
+					details = await this.seriesDetails(profile);
+				} catch (error) {
+					console.warn(`OGD: could not read the series names of ${profile.name}:`, error);
+				}
+			}
+
+			if (!this.app.vault.getAbstractFileByPath(profile.seriesIndexDir)) {
+				await this.app.vault.createFolder(profile.seriesIndexDir);
+			}
+			for (const id of Array.from(ids)) {
+				const series = details.get(id) ?? parseSeriesDescription(id);
+				const path = `${profile.seriesIndexDir}/${seriesIndexName(series)}.md`;
+				const content = seriesIndexNote(series, this.seriesParts(profile, id));
+				const existing = this.app.vault.getAbstractFileByPath(path);
+				if (!(existing instanceof TFile)) {
+					await this.app.vault.create(path, content);
+				} else if (await this.app.vault.read(existing) !== content) {
+					await this.app.vault.modify(existing, content);
+				}
+			}
+		}
+	}
+
+	/**
+	 * Picks a series of the profile, from its notes and its series labels, and
+	 * sets the name and description stored in the series label.
+	 */
+	private async editSeries(profile: OGDProfile) {
+		if (!await this.checkSettings([profile])) {
+			return;
+		}
+		const labels = this.labelManager(profile);
+		let details: Map<string, GitHubSeries>;
+		try {
+			details = await this.seriesDetails(profile, labels);
+		} catch (error) {
+			console.error('Failed to list series:', error);
+			new Notice(`OGD: Could not list series: ${error instanceof Error ? error.message : 'Unknown error'}`);
+			return;
+		}
+		// Series only in the vault get their label when they are saved
+		for (const file of this.getArticleFiles(profile)) {
+			const frontMatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+			if (this.hasSeries(frontMatter) && !details.has(seriesId(frontMatter!.series))) {
+				details.set(seriesId(frontMatter!.series), parseSeriesDescription(seriesId(frontMatter!.series)));
+			}
+		}
+		if (details.size === 0) {
+			new Notice(`OGD: The ${profile.name} profile has no series`);
+			return;
+		}
+
+		new OGDSuggestModal(this.app, Array.from(details.values()), series => series.name === series.id ? series.id : `${series.name} (${series.id})`, series => {
+			new OGDSeriesModal(this.app, series, async (name, description) => {
+				const text = formatSeriesDescription(name, description);
+				// GitHub's limit on label descriptions
+				if (text.length > 100) {
+					new Notice(`OGD: The name and description of a series are stored in its label and can only be 100 characters together; these are ${text.length}`, 8000);
+					return;
+				}
+				try {
+					await labels.describe(`${profile.seriesLabelPrefix}${series.id}`, text);
+					new Notice(`OGD: Saved the ${name} series`);
+					await this.updateSeriesIndexes([profile]);
+				} catch (error) {
+					console.error('Failed to save series:', error);
+					new Notice(`OGD: Could not save the series: ${error instanceof Error ? error.message : 'Unknown error'}`);
+				}
+			}).open();
+		}).open();
+	}
+
+	/**
+	 * Lists the tag and series labels no discussion, issue or pull request uses
+	 * any more and deletes the ones approved. Nothing is deleted before that.
+	 */
+	private async pruneLabels(profile: OGDProfile) {
+		if (!await this.checkSettings([profile])) {
+			return;
+		}
+		const labels = this.labelManager(profile);
+		let unused: GitHubLabel[];
+		try {
+			unused = await labels.unused([profile.tagLabelPrefix, profile.seriesLabelPrefix]);
+		} catch (error) {
+			console.error('Failed to list labels:', error);
+			new Notice(`OGD: Could not list labels: ${error instanceof Error ? error.message : 'Unknown error'}`);
+			return;
+		}
+		if (unused.length === 0) {
+			new Notice(`OGD: No unused tag or series labels in ${profile.owner}/${profile.repo}`);
+			return;
+		}
+
+		new OGDPruneModal(this.app, `Unused labels in ${profile.owner}/${profile.repo}`, unused, async (approved) => {
+			let deleted = 0;
+			for (const label of approved) {
+				try {
+					await labels.delete(label);
+					deleted++;
+				} catch (error) {
+					console.error(`Failed to delete label ${label.name}:`, error);
+					new Notice(`OGD: Could not delete ${label.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+				}
+			}
+			if (deleted > 0) {
+				new Notice(`OGD: Deleted ${deleted} labels`);
+			}
+		}).open();
+	}
+
+	private async replaceLabels(profile: OGDProfile, discussionId: string, labelIds: Map<string, string>) {
+		// First, remove the draft label and all existing labels that start with our prefixes
+		const existingDiscussion = await this.transport(profile).request(
+			GET_DISCUSSION_LABELS,
+			{ id: discussionId }
+		);
+
+		const prefixes = [profile.tagLabelPrefix, profile.seriesLabelPrefix, ...this.fieldMapper().labelPrefixes()]
+			.filter(prefix => prefix !== '');
+		const existingLabelsToRemove = existingDiscussion.node.labels.nodes
+			.filter((label: any) => label.name === profile.draftLabel || prefixes.some(prefix => label.name.startsWith(prefix)))
+			.map((label: any) => label.id);
+
+		if (existingLabelsToRemove.length > 0) {
+			await this.transport(profile).request(
+				REMOVE_LABELS_FROM_DISCUSSION,
+				{
+					labelableId: discussionId,
+					labelIds: existingLabelsToRemove
+				}
+			);
+		}
+
+		// Then add the new labels
+		if (labelIds.size > 0) {
+			await this.transport(profile).request(
+				ADD_LABELS_TO_DISCUSSION,
+				{
+					labelableId: discussionId,
+					labelIds: Array.from(labelIds.values())
+				}
+			);
+		}
+	}
+
+	/**
+	 * GraphQL transport for the profile's token, shared by every profile using the
+	 * same token so retries and rate limit tracking span all of their requests.
+	 */
+	private transport(profile: OGDProfile): GitHubTransport {
+		const token = this.getToken(profile) ?? '';
+		let transport = this.graphql.get(token);
+		if (!transport) {
+			transport = githubTransport({ auth: token });
+			this.graphql.set(token, transport);
+		}
+		return transport;
+	}
+
+	/**
+	 * The profile's token, falling back to the OGD_GITHUB_TOKEN environment variable
+	 * (read on every call, so it can change without a reload).
+	 */
+	getToken(profile: OGDProfile): string | undefined {
+		if (profile.githubToken) {
+			return profile.githubToken;
+		}
+		// process is not available on mobile
+		return typeof process !== 'undefined' ? process.env[ENV_TOKEN_NAME] || undefined : undefined;
+	}
+
+	/**
+	 * Checks the token and repository against the API and reports who the token belongs to.
+	 */
+	async testConnection(profile: OGDProfile): Promise<{ login: string, scopes?: string[] }> {
+		const transport = this.transport(profile);
+		const repoInfo = await transport.request(GET_REPOSITORY_INFO, {
+			owner: profile.owner,
+			name: profile.repo
+		});
+		return { login: repoInfo.viewer.login, scopes: transport.scopes() };
+	}
+
+	private async checkSettings(profiles: OGDProfile[]): Promise<boolean> {
+		let success = true;
+		for (const profile of profiles) {
+			success = await this.checkProfile(profile) && success;
+		}
+		return success;
+	}
+
+	private async checkProfile(profile: OGDProfile): Promise<boolean> {
+		const folders = this.app.vault.getAllLoadedFiles()
+			.filter(file => file instanceof TFolder);
+		folders.filter(folder => folder.name === profile.articlesDir);
+		let success = true;
+		if (folders.length === 0) {
+			new Notice(`OGD: Does the ${profile.name} directory exist? Did you configure it in OGDSettings?`);
+			success = false;
+			return Promise.resolve(success);
+		}
+		const markdownFiles = this.getArticleFiles(profile);
+		if (markdownFiles.length === 0) {
+			new Notice(`OGD: No markdown files found in ${profile.articlesDir}.`);
+		} else {
+			// Do something with the markdown files
+			new Notice(`OGD: Found ${markdownFiles.length} markdown files in ${profile.articlesDir}.`);
+		}
+		if (!this.getToken(profile)) {
+			new Notice(`OGD: Please add a Github token to the ${profile.name} profile or set the ${ENV_TOKEN_NAME} environment variable`);
+			success = false;
+		}
+		if (profile.categories.length > 0 && !profile.blogPostCategory) {
+			new Notice(`OGD: The ${profile.name} profile syncs several categories, so it needs a Blog Post Category for the notes directly in ${profile.articlesDir}`);
+			success = false;
+		}
+		if (profile.owner === "" || profile.repo === "") {
+			new Notice(`OGD: Please ensure owner and repo of the ${profile.name} profile are configured correctly. Owner should be a Github username and repo should be the name of the repository where we want to publish md to discussions.`);
+			success = false;
+		}
+		if (success) {
+			try {
+				await this.testConnection(profile);
+			} catch (error) {
+				new Notice(`OGD: ${profile.name}: ${describeConnectionError(error)}`);
+				success = false;
+			}
+		}
+		return success;
+	}
+
+	onunload() {
+	}
+
+	async loadSettings() {
+		const data = await this.loadData() ?? {};
+		if (!data.profiles) {
+			Object.assign(data, this.migrateToProfiles(data));
+		}
+		const { profileState, attachmentIndex, ...settings }: OGDData = Object.assign({}, DEFAULT_SETTINGS, { profileState: {}, attachmentIndex: {} }, data);
+		// Copy so edits in the settings tab never touch the defaults
+		settings.profiles = settings.profiles.map(profile => ({ ...DEFAULT_PROFILE, ...profile, categories: [...profile.categories ?? []] }));
+		settings.fieldMappings = settings.fieldMappings.map(mapping => ({ ...mapping }));
+		settings.dateFields = [...settings.dateFields];
+		settings.tagAliases = { ...settings.tagAliases };
+		settings.markdownTransforms = { ...settings.markdownTransforms };
+		this.settings = settings;
+		this.profileState = profileState;
+		this.attachmentIndex = attachmentIndex;
+	}
+
+	/**
+	 * Turns the single blog configured before profiles existed into the first
+	 * profile, keeping its sync state, and drops the old keys.
+	 */
+	private migrateToProfiles(data: LegacyData & Record<string, unknown>): Pick<OGDData, 'profiles' | 'profileState'> {
+		const { githubToken, articlesDir, owner, repo, blogPostCategory, draftLabel, tagLabelPrefix, seriesLabelPrefix, siteUrlTemplate, syncState, syncCursor, scheduled } = data;
+		for (const key of ['githubToken', 'articlesDir', 'owner', 'repo', 'blogPostCategory', 'draftLabel', 'tagLabelPrefix', 'seriesLabelPrefix', 'siteUrlTemplate', 'syncState', 'syncCursor', 'scheduled']) {
+			delete data[key];
+		}
+		const legacy = { githubToken, articlesDir, owner, repo, blogPostCategory, draftLabel, tagLabelPrefix, seriesLabelPrefix, siteUrlTemplate };
+		const profile: OGDProfile = { ...DEFAULT_PROFILE };
+		for (const [key, value] of Object.entries(legacy)) {
+			if (value !== undefined) {
+				(profile as unknown as Record<string, unknown>)[key] = value;
+			}
+		}
+		return {
+			profiles: [profile],
+			profileState: { [profile.id]: { syncState: syncState ?? {}, syncCursor, scheduled: scheduled ?? {} } }
+		};
+	}
+
+	async saveSettings() {
+		const data: OGDData = { ...this.settings, profileState: this.profileState, attachmentIndex: this.attachmentIndex };
+		await this.saveData(data);
+	}
+}
+
+class OGDSettingsTab extends PluginSettingTab {
+	plugin: ObsidianGithubDiscussions;
+	// Profiles expanded in the tab, so redrawing it keeps them open
+	private openProfiles = new Set<string>();
+
+	constructor(app: App, plugin: ObsidianGithubDiscussions) {
+		super(app, plugin);
+		this.plugin = plugin;
+	}
+
+	display(): void {
+		const {containerEl} = this;
+
+		containerEl.empty();
+
+		new Setting(containerEl)
+			.setName("Blogs")
+			.setDesc("Each profile syncs one folder of the vault with a discussion category of a repository. Notes belong to the profile whose folder they are in.")
+			.setHeading();
+
+		this.plugin.settings.profiles.forEach((profile, index) => this.displayProfile(containerEl, profile, index));
+
+		new Setting(containerEl)
+			.addButton(btn => {
+				btn.setButtonText('Add profile')
+					.onClick(async () => {
+						const profile = { ...DEFAULT_PROFILE, id: newProfileId(), name: `Blog ${this.plugin.settings.profiles.length + 1}` };
+						this.plugin.settings.profiles.push(profile);
+						this.openProfiles.add(profile.id);
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			});
+
+		new Setting(containerEl)
+			.setName("Make MD Plugin Installed?")
+			.setDesc("Set to true if using Make MD, else leave false")
+			.addToggle(toggle => {
+				toggle.setValue(this.plugin.settings.makeMd)
+					.onChange(async (value) => {
+						this.plugin.settings.makeMd = value;
+						await this.plugin.saveSettings();
+					})
+			});
+
+		new Setting(containerEl)
+			.setName("Incremental Download")
+			.setDesc("Only fetch discussions updated since the last download. Use the \"Full resync\" command to fetch everything again.")
+			.addToggle(toggle => {
+				toggle.setValue(this.plugin.settings.incrementalDownload)
+					.onChange(async (value) => {
+						this.plugin.settings.incrementalDownload = value;
+						await this.plugin.saveSettings();
+					})
+			})
+
+		new Setting(containerEl)
+			.setName("Background Sync")
+			.setDesc("Upload notes in the articles directory shortly after you stop editing them and download changes from Github periodically. Posts changed on both sides are never synced in the background. Click the status bar item for a log.")
+			.addToggle(toggle => {
+				toggle.setValue(this.plugin.settings.autoSync)
+					.onChange(async (value) => {
+						this.plugin.settings.autoSync = value;
+						await this.plugin.saveSettings();
+						this.plugin.configureAutoSync();
+					})
+			})
+
+		new Setting(containerEl)
+			.setName("Upload Delay")
+			.setDesc("Seconds to wait after the last edit before uploading")
+			.addText(tc => {
+				tc.setPlaceholder(String(DEFAULT_SETTINGS.autoSyncDelay))
+					.setValue(String(this.plugin.settings.autoSyncDelay))
+					.onChange(async (value) => {
+						this.plugin.settings.autoSyncDelay = Number(value) > 0 ? Number(value) : DEFAULT_SETTINGS.autoSyncDelay;
+						await this.plugin.saveSettings();
+					})
+			})
+
+		new Setting(containerEl)
+			.setName("Download Interval")
+			.setDesc("Minutes between checks for changes on Github")
+			.addText(tc => {
+				tc.setPlaceholder(String(DEFAULT_SETTINGS.autoSyncPollInterval))
+					.setValue(String(this.plugin.settings.autoSyncPollInterval))
+					.onChange(async (value) => {
+						this.plugin.settings.autoSyncPollInterval = Number(value) > 0 ? Number(value) : DEFAULT_SETTINGS.autoSyncPollInterval;
+						await this.plugin.saveSettings();
+						this.plugin.configureAutoSync();
+					})
+			})
+
+		new Setting(containerEl)
+			.setName("Deleted Notes")
+			.setDesc("What an upload does to the discussion of a note you deleted from the articles directory")
+			.addDropdown(dropdown => {
+				dropdown.addOption('keep', 'Leave it')
+					.addOption('close', 'Close it as outdated')
+					.addOption('lock', 'Lock it')
+					.addOption('delete', 'Delete it')
+					.setValue(this.plugin.settings.remoteDeletePolicy)
+					.onChange(async (value) => {
+						this.plugin.settings.remoteDeletePolicy = value as OGDSettings['remoteDeletePolicy'];
+						await this.plugin.saveSettings();
+					})
+			})
+
+		new Setting(containerEl)
+			.setName("Deleted Discussions")
+			.setDesc("What a download does to the note of a discussion deleted on Github")
+			.addDropdown(dropdown => {
+				dropdown.addOption('unlink', 'Keep it, upload it as a new discussion next time')
+					.addOption('archive', 'Move it to the archive folder')
+					.addOption('delete', 'Move it to the trash')
+					.setValue(this.plugin.settings.localDeletePolicy)
+					.onChange(async (value) => {
+						this.plugin.settings.localDeletePolicy = value as OGDSettings['localDeletePolicy'];
+						await this.plugin.saveSettings();
+					})
+			})
+
+		new Setting(containerEl)
+			.setName("Archive Folder")
+			.setDesc("Where notes of deleted discussions are moved to. Keep it outside the articles directory.")
+			.addText(tc => {
+				tc.setPlaceholder(DEFAULT_SETTINGS.archiveDir)
+					.setValue(this.plugin.settings.archiveDir)
+					.onChange(async (value) => {
+						this.plugin.settings.archiveDir = value.trim() || DEFAULT_SETTINGS.archiveDir;
+						await this.plugin.saveSettings();
+					})
+			})
+
+		new Setting(containerEl)
+			.setName("Sync Comments")
+			.setDesc("Download the comments and replies on each discussion along with the post")
+			.addToggle(toggle => {
+				toggle.setValue(this.plugin.settings.syncComments)
+					.onChange(async (value) => {
+						this.plugin.settings.syncComments = value;
+						await this.plugin.saveSettings();
+					})
+			})
+
+		new Setting(containerEl)
+			.setName("Comments Location")
+			.setDesc("Where downloaded comments are written. They are never uploaded.")
+			.addDropdown(dropdown => {
+				dropdown.addOption('section', 'Collapsed section at the end of the note')
+					.addOption('file', 'Separate <note>.comments.md file')
+					.setValue(this.plugin.settings.commentsLocation)
+					.onChange(async (value) => {
+						this.plugin.settings.commentsLocation = value as OGDSettings['commentsLocation'];
+						await this.plugin.saveSettings();
+					})
+			})
+
+		new Setting(containerEl)
+			.setName("Field Mapping")
+			.setDesc("How note frontmatter keys are synced. \"Discussion frontmatter\" copies the key into the discussion under the Github name, \"Label\" turns each value into a label starting with the Github name as prefix, and \"Vault only\" never leaves the vault. slug, tags and series are always synced.")
+			.setHeading();
+
+		this.plugin.settings.fieldMappings.forEach((mapping, index) => {
+			new Setting(containerEl)
+				.addText(tc => {
+					tc.setPlaceholder('Note key')
+						.setValue(mapping.local)
+						.onChange(async (value) => {
+							mapping.local = value.trim();
+							await this.plugin.saveSettings();
+						})
+				})
+				.addDropdown(dropdown => {
+					dropdown.addOption('frontmatter', 'Discussion frontmatter')
+						.addOption('label', 'Label')
+						.addOption('local', 'Vault only')
+						.setValue(mapping.target)
+						.onChange(async (value) => {
+							mapping.target = value as FieldTarget;
+							await this.plugin.saveSettings();
+						})
+				})
+				.addText(tc => {
+					tc.setPlaceholder('Github key or label prefix')
+						.setValue(mapping.remote)
+						.onChange(async (value) => {
+							mapping.remote = value.trim();
+							await this.plugin.saveSettings();
+						})
+				})
+				.addExtraButton(btn => {
+					btn.setIcon('trash')
+						.setTooltip('Remove mapping')
+						.onClick(async () => {
+							this.plugin.settings.fieldMappings.splice(index, 1);
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				});
+		});
+
+		new Setting(containerEl)
+			.addButton(btn => {
+				btn.setButtonText('Add mapping')
+					.onClick(async () => {
+						this.plugin.settings.fieldMappings.push({ local: '', remote: '', target: 'frontmatter' });
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			});
+
+		new Setting(containerEl)
+			.setName("Sync Unmapped Fields")
+			.setDesc("Copy frontmatter keys that have no mapping into the discussion, and back, under the same name")
+			.addToggle(toggle => {
+				toggle.setValue(this.plugin.settings.syncUnmappedFields)
+					.onChange(async (value) => {
+						this.plugin.settings.syncUnmappedFields = value;
+						await this.plugin.saveSettings();
+					})
+			})
+
+		new Setting(containerEl)
+			.setName("Tags")
+			.setDesc("Tags are written in lower case with dashes for spaces and no punctuation, in the vault and in labels, so Web Dev and web-dev are the same tag. Nested tags keep their slashes.")
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName("Inline Tags")
+			.setDesc("Also upload #tags written in the body of a note. Downloads leave them out of the frontmatter tags.")
+			.addToggle(toggle => {
+				toggle.setValue(this.plugin.settings.inlineTags)
+					.onChange(async (value) => {
+						this.plugin.settings.inlineTags = value;
+						await this.plugin.saveSettings();
+					})
+			})
+
+		new Setting(containerEl)
+			.setName("Tag Aliases")
+			.setDesc("One alias per line as alias: tag, e.g. ts: typescript. The alias is replaced with the tag on upload and on download.")
+			.addTextArea(text => {
+				text.setPlaceholder('ts: typescript')
+					.setValue(formatTagAliases(this.plugin.settings.tagAliases))
+					.onChange(async (value) => {
+						this.plugin.settings.tagAliases = parseTagAliases(value);
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.rows = 4;
+			})
+
+		new Setting(containerEl)
+			.setName("Dates")
+			.setDesc("Formats use Moment.js tokens. Dates in other common shapes (ISO-8601, YYYY-MM-DD, MM/DD/YYYY, ...) are still recognised and rewritten in these formats.")
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName("Vault Date Format")
+			.setDesc(`Format of dates in note frontmatter, e.g. MM/DD/YYYY or ${ISO_8601_FORMAT} for ISO-8601 with time zone`)
+			.addText(tc => {
+				tc.setPlaceholder(DEFAULT_SETTINGS.localDateFormat)
+					.setValue(this.plugin.settings.localDateFormat)
+					.onChange(async (value) => {
+						this.plugin.settings.localDateFormat = value.trim() || DEFAULT_SETTINGS.localDateFormat;
+						await this.plugin.saveSettings();
+					})
+			})
+
+		new Setting(containerEl)
+			.setName("Github Date Format")
+			.setDesc(`Format of dates in discussion frontmatter, e.g. YYYY-MM-DD or ${ISO_8601_FORMAT}`)
+			.addText(tc => {
+				tc.setPlaceholder(DEFAULT_SETTINGS.remoteDateFormat)
+					.setValue(this.plugin.settings.remoteDateFormat)
+					.onChange(async (value) => {
+						this.plugin.settings.remoteDateFormat = value.trim() || DEFAULT_SETTINGS.remoteDateFormat;
+						await this.plugin.saveSettings();
+					})
+			})
+
+		new Setting(containerEl)
+			.setName("Date Fields")
+			.setDesc("Comma-separated note keys holding dates")
+			.addText(tc => {
+				tc.setValue(this.plugin.settings.dateFields.join(", "))
+					.onChange(async (value) => {
+						this.plugin.settings.dateFields = value.split(",").map(field => field.trim()).filter(field => field !== "");
+						await this.plugin.saveSettings();
+					})
+			})
+
+		new Setting(containerEl)
+			.setName("Scheduled Publishing")
+			.setDesc("Upload notes whose published date is in the future with the draft label, and take the label off once the date arrives. Obsidian has to be running for that to happen.")
+			.addToggle(toggle => {
+				toggle.setValue(this.plugin.settings.scheduledPublishing)
+					.onChange(async (value) => {
+						this.plugin.settings.scheduledPublishing = value;
+						await this.plugin.saveSettings();
+					})
+			})
+
+		new Setting(containerEl)
+			.setName("Manage Updated Date")
+			.setDesc("Set a date field to the current time whenever a changed note is uploaded over an existing discussion")
+			.addToggle(toggle => {
+				toggle.setValue(this.plugin.settings.manageUpdatedField)
+					.onChange(async (value) => {
+						this.plugin.settings.manageUpdatedField = value;
+						await this.plugin.saveSettings();
+					})
+			})
+			.addText(tc => {
+				tc.setPlaceholder('updated')
+					.setValue(this.plugin.settings.updatedField)
+					.onChange(async (value) => {
+						this.plugin.settings.updatedField = value.trim();
+						await this.plugin.saveSettings();
+					})
+			})
+
+		new Setting(containerEl)
+			.setName("Attachments")
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName("Upload Attachments")
+			.setDesc("Upload images and other files embedded in notes to the repository and link to them from the discussion. The token needs write access to the repository contents.")
+			.addToggle(toggle => {
+				toggle.setValue(this.plugin.settings.uploadAttachments)
+					.onChange(async (value) => {
+						this.plugin.settings.uploadAttachments = value;
+						await this.plugin.saveSettings();
+					})
+			})
+
+		new Setting(containerEl)
+			.setName("Attachment Branch")
+			.setDesc("Branch to commit attachments to. Leave empty for the repository's default branch.")
+			.addText(tc => {
+				tc.setValue(this.plugin.settings.attachmentBranch)
+					.onChange(async (value) => {
+						this.plugin.settings.attachmentBranch = value.trim();
+						await this.plugin.saveSettings();
+					})
+			})
+
+		new Setting(containerEl)
+			.setName("Attachment Folder")
+			.setDesc("Folder in the repository to commit attachments to")
+			.addText(tc => {
+				tc.setPlaceholder(DEFAULT_SETTINGS.attachmentFolder)
+					.setValue(this.plugin.settings.attachmentFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.attachmentFolder = value.trim() || DEFAULT_SETTINGS.attachmentFolder;
+						await this.plugin.saveSettings();
+					})
+			})
+
+		new Setting(containerEl)
+			.setName("Markdown Conversion")
+			.setDesc("Obsidian-only syntax rewritten on upload, in this order. Links to posts, callouts and highlights are turned back into Obsidian syntax on download.")
+			.setHeading();
+
+		for (const transform of MARKDOWN_TRANSFORMS) {
+			new Setting(containerEl)
+				.setName(transform.name)
+				.setDesc(transform.description)
+				.addToggle(toggle => {
+					toggle.setValue(this.plugin.settings.markdownTransforms[transform.id] ?? true)
+						.onChange(async (value) => {
+							this.plugin.settings.markdownTransforms[transform.id] = value;
+							await this.plugin.saveSettings();
+						})
+				});
+		}
+	}
+
+	private displayLabelStyle(containerEl: HTMLElement, profile: OGDProfile, kind: 'tag' | 'series', name: string) {
+		const color = `${kind}LabelColor` as const;
+		const description = `${kind}LabelDescription` as const;
+		new Setting(containerEl)
+			.setName(`${name} Style`)
+			.setDesc("Colour and description of the labels. {name} in the description stands for the label name without its prefix. Colours are applied to existing labels on upload, descriptions only to labels without one.")
+			.addColorPicker(picker => {
+				picker.setValue(`#${profile[color]}`)
+					.onChange(async (value) => {
+						profile[color] = value.replace(/^#/, '');
+						await this.plugin.saveSettings();
+					})
+			})
+			.addText(tc => {
+				tc.setPlaceholder('Description')
+					.setValue(profile[description])
+					.onChange(async (value) => {
+						profile[description] = value;
+						await this.plugin.saveSettings();
+					})
+			});
+	}
+
+	private displayProfile(containerEl: HTMLElement, profile: OGDProfile, index: number) {
+		const { profiles } = this.plugin.settings;
+		const details = containerEl.createEl('details', { cls: 'ogd-profile' });
+		details.open = profiles.length === 1 || this.openProfiles.has(profile.id);
+		details.addEventListener('toggle', () => {
+			if (details.open) {
+				this.openProfiles.add(profile.id);
+			} else {
+				this.openProfiles.delete(profile.id);
+			}
+		});
+		const summary = details.createEl('summary', { text: profile.name });
+
+		new Setting(details)
+			.setName("Profile Name")
+			.addText(tc => {
+				tc.setValue(profile.name)
+					.onChange(async (value) => {
+						profile.name = value.trim() || DEFAULT_PROFILE.name;
+						summary.setText(profile.name);
+						await this.plugin.saveSettings();
+					})
+			});
+
+		new Setting(details)
+			.setName("Github Token")
+			.setDesc(`Personal access token with repo and discussion access. Falls back to the ${ENV_TOKEN_NAME} environment variable when empty.`)
+			.addText(tc => {
+				tc.inputEl.type = 'password';
+				tc.setPlaceholder('ghp_...')
+					.setValue(profile.githubToken)
+					.onChange(async (value) => {
+						profile.githubToken = value.trim();
+						await this.plugin.saveSettings();
+					})
+			})
+			.addButton(btn => {
+				btn.setButtonText('Test connection')
+					.onClick(async () => {
+						if (!this.plugin.getToken(profile)) {
+							new Notice(`OGD: No token configured and ${ENV_TOKEN_NAME} is not set`);
+							return;
+						}
+						btn.setDisabled(true);
+						try {
+							const { login, scopes } = await this.plugin.testConnection(profile);
+							const granted = scopes ? `scopes: ${scopes.join(', ') || 'none'}` : 'fine-grained token';
+							new Notice(`OGD: Connected to ${profile.owner}/${profile.repo} as ${login} (${granted})`, 8000);
+						} catch (error) {
+							new Notice(`OGD: ${describeConnectionError(error)}`, 8000);
+						} finally {
+							btn.setDisabled(false);
+						}
+					});
+			});
+
+		new Setting(details)
+			.setName('Blog Articles Directory')
+			.setDesc('Github Discussion Blog Articles Directory')
+			.addDropdown(dropdown => {
+				// Get all folders in the vault
+				const folders = this.plugin.app.vault.getAllLoadedFiles()
+					.filter(file => file instanceof TFolder);
+
+				// Populate the dropdown with folder paths
+				folders.forEach(folder => {
+					dropdown.addOption(folder.path, folder.path);
+				});
+
+				dropdown
+					.setValue(profile.articlesDir)
+					.onChange(async (value) => {
+						profile.articlesDir = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(details)
+			.setName("Repo Owner")
+			.setDesc("Github User who owns the repo")
+			.addText(tc => {
+				tc.setValue(profile.owner)
+					.onChange(async (value) => {
+						profile.owner = value;
+						await this.plugin.saveSettings();
+					})
+			});
+
+		new Setting(details)
+			.setName("Repo Name")
+			.setDesc("Github Repo Name")
+			.addText(tc => {
+				tc.setValue(profile.repo)
+					.onChange(async (value) => {
+						profile.repo = value;
+						await this.plugin.saveSettings();
+					})
+			})
+
+		new Setting(details)
+			.setName("Blog Post Category")
+			.setDesc("Optional")
+			.addText(tc => {
+				tc.setValue(profile.blogPostCategory)
+					.onChange(async (value) => {
+						profile.blogPostCategory = value;
+						await this.plugin.saveSettings();
+					})
+			})
+
+		new Setting(details)
+			.setName("Other Categories")
+			.setDesc("Comma-separated discussion categories to sync alongside the blog post category")
+			.addText(tc => {
+				tc.setValue(profile.categories.join(", "))
+					.onChange(async (value) => {
+						profile.categories = value.split(",").map(category => category.trim()).filter(category => category !== "");
+						await this.plugin.saveSettings();
+					})
+			})
+
+		new Setting(details)
+			.setName("Category Location")
+			.setDesc("How a note says which of the categories it belongs to. Notes without one go to the blog post category.")
+			.addDropdown(dropdown => {
+				dropdown.addOption('folder', 'Subfolder named after the category')
+					.addOption('field', 'category field in the frontmatter')
+					.setValue(profile.categoryLocation)
+					.onChange(async (value) => {
+						profile.categoryLocation = value as OGDProfile['categoryLocation'];
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(details)
+			.setName("Draft Label")
+			.setDesc("Optional")
+			.addText(tc => {
+				tc.setValue(profile.draftLabel)
+					.onChange(async (value) => {
+						profile.draftLabel = value;
+						await this.plugin.saveSettings();
+					})
+			})
+
+		new Setting(details)
+			.setName("Tag Label Prefix")
+			.setDesc("Optional")
+			.addText(tc => {
+				tc.setValue(profile.tagLabelPrefix)
+					.onChange(async (value) => {
+						profile.tagLabelPrefix = value;
+						await this.plugin.saveSettings();
+					})
+			})
+
+		new Setting(details)
+			.setName("Series Label Prefix")
+			.setDesc("Optional")
+			.addText(tc => {
+				tc.setValue(profile.seriesLabelPrefix)
+					.onChange(async (value) => {
+						profile.seriesLabelPrefix = value;
+						await this.plugin.saveSettings();
+					})
+			})
+
+		this.displayLabelStyle(details, profile, 'tag', "Tag Label");
+		this.displayLabelStyle(details, profile, 'series', "Series Label");
+
+		new Setting(details)
+			.setName("Series Navigation")
+			.setDesc("Add \"Part N of M\" with links to the previous and next parts to the end of each discussion in a series")
+			.addToggle(toggle => {
+				toggle.setValue(profile.seriesNavigation)
+					.onChange(async (value) => {
+						profile.seriesNavigation = value;
+						await this.plugin.saveSettings();
+					})
+			});
+
+		new Setting(details)
+			.setName("Series Index Folder")
+			.setDesc("Folder to keep a generated note for each series in, listing its parts in order. Leave empty for none.")
+			.addText(tc => {
+				tc.setPlaceholder('Series')
+					.setValue(profile.seriesIndexDir)
+					.onChange(async (value) => {
+						profile.seriesIndexDir = value.trim().replace(/\/+$/, '');
+						await this.plugin.saveSettings();
+					})
+			});
+
+		new Setting(details)
+			.setName("Site URL Template")
+			.setDesc("Where your published posts live, with {slug} in place of the post's slug, e.g. https://example.com/blog/{slug}. Links to this blog's notes point there; leave empty to link to the Github discussion.")
+			.addText(tc => {
+				tc.setPlaceholder('https://example.com/blog/{slug}')
+					.setValue(profile.siteUrlTemplate)
+					.onChange(async (value) => {
+						profile.siteUrlTemplate = value.trim();
+						await this.plugin.saveSettings();
+					})
+			})
+
+		new Setting(details)
+			.addButton(btn => {
+				btn.setButtonText('Duplicate')
+					.onClick(async () => {
+						const copy = { ...profile, id: newProfileId(), name: `${profile.name} copy` };
+						profiles.splice(index + 1, 0, copy);
+						this.openProfiles.add(copy.id);
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			})
+			.addButton(btn => {
+				btn.setButtonText('Remove')
+					.setWarning()
+					.setDisabled(profiles.length === 1)
+					.onClick(() => {
+						new OGDModal(this.app, `Remove the ${profile.name} profile? Its notes stay in the vault and its discussions on Github, but what was synced is forgotten.`, async (approve) => {
+							if (!approve) return;
+							profiles.splice(index, 1);
+							delete this.plugin.profileState[profile.id];
+							await this.plugin.saveSettings();
+							this.display();
+						}).open();
+					})
+			});
 	}
 }
@@ -1,5 +1,8 @@
-import type { GitHubActor, GitHubCategory, GitHubMappings, GitHubPost, GitHubSeries } from "./types";
+import type { GitHubActor, GitHubCategory, GitHubComment, GitHubMappings, GitHubPost, GitHubReaction, GitHubSeries } from "./types";
 import slugify from "slugify";
+import { parseSeriesDescription, seriesId } from "./series";
+import { hashContent } from "./sync";
+import { normalizeTags } from "./tags";
 
 export function githubMapper(mappings: GitHubMappings) {
 
@@ -13,30 +16,40 @@ export function githubMapper(mappings: GitHubMappings) {
         body: node.body,
         created: new Date(node.createdAt),
         updated: new Date(node.updatedAt),
+        closed: node.closed,
+        locked: node.locked,
         category: mapCategory(node.category),
+        labels: node.labels.edges.map((x: any) => x.node.name),
+        draft: !!mappings.draftLabel && node.labels.edges.some((x: any) => x.node.name === mappings.draftLabel),
         tags: mapTags(node.labels),
         series: mapSeries(node.labels),
         author: mapActor(node.author),
         githubUrl: node.url,
         githubDiscussionId: node.id,
-        githubDiscussionNumber: node.number
+        githubDiscussionNumber: node.number,
+        commentsFingerprint: mapCommentsFingerprint(node.comments)
     });
 
+    const mapCommentsFingerprint = (comments: any): string => {
+        const state = (comment: any) => [comment.updatedAt, comment.isAnswer ?? false, comment.isMinimized, comment.reactions.totalCount];
+        return hashContent(JSON.stringify([
+            comments?.totalCount ?? 0,
+            (comments?.nodes ?? []).map((comment: any) => [...state(comment), comment.replies.totalCount, comment.replies.nodes.map(state)])
+        ]));
+    }
+
     const mapCategory = (category: any) : GitHubCategory => ({
         id: slugify(category.name, { lower: true }),
         name: category.name
     });
 
     const mapTags = (labels: any): string[] => {
-        return labels.edges.filter((x:any) => x.node.name.startsWith(mappings.tagLabelPrefix)).map((x:any) => slugify(x.node.name.replace(mappings.tagLabelPrefix, ''), { lower: true }));
+        return normalizeTags(labels.edges.filter((x:any) => x.node.name.startsWith(mappings.tagLabelPrefix)).map((x:any) => x.node.name.replace(mappings.tagLabelPrefix, '')), mappings.tagAliases);
     }
 
     const mapSeries = (labels: any): GitHubSeries => {
         const seriesNode = labels.edges.find((x:any) => x.node.name.startsWith(mappings.seriesLabelPrefix));
-        return seriesNode && {
-            id: slugify(seriesNode.node.name.replace(mappings.seriesLabelPrefix, '')),
-            name: seriesNode.node.description
-        }
+        return seriesNode && parseSeriesDescription(seriesId(seriesNode.node.name.replace(mappings.seriesLabelPrefix, '')), seriesNode.node.description);
     }
 
     const mapActor = (actor: any) : GitHubActor => ({
@@ -45,5 +58,26 @@ export function githubMapper(mappings: GitHubMappings) {
         url: actor.url
     })
 
-    return { mapPosts, mapPost, mapTags, mapSeries, mapActor, mapCategory };
+    const mapComment = (node: any): GitHubComment => ({
+        id: node.id,
+        url: node.url,
+        body: node.body,
+        created: new Date(node.createdAt),
+        author: node.author ? mapActor(node.author) : undefined,
+        isAnswer: node.isAnswer ?? false,
+        minimized: node.isMinimized ?? false,
+        canMarkAsAnswer: node.viewerCanMarkAsAnswer ?? false,
+        canMinimize: node.viewerCanMinimize ?? false,
+        reactions: mapReactions(node.reactionGroups),
+        // Replies have no replies of their own
+        replies: (node.replies?.nodes ?? []).map(mapComment)
+    });
+
+    const mapReactions = (reactionGroups: any): GitHubReaction[] => {
+        return (reactionGroups ?? [])
+            .filter((x: any) => x.reactors.totalCount > 0)
+            .map((x: any) => ({ content: x.content, count: x.reactors.totalCount }));
+    }
+
+    return { mapPosts, mapPost, mapTags, mapSeries, mapActor, mapCategory, mapComment, mapReactions, mapCommentsFingerprint };
 }
@@ -0,0 +1,23 @@
+// Fenced code blocks (``` or ~~~) and inline code spans
+const CODE = /(^|\n)(```|~~~)[^\n]*\n[\s\S]*?(?:\n\2[^\n]*(?=\n|$)|$)|`[^`\n]+`/g;
+
+/**
+ * Applies `transform` to every part of a Markdown document that is not code,
+ * so rewrites of links and syntax never touch code samples. Line-based rewrites
+ * can pass `skipInline = false` to only skip fenced blocks, so a line is never
+ * split at an inline code span.
+ */
+export function mapOutsideCode(markdown: string, transform: (text: string) => string, skipInline = true): string {
+    const code = new RegExp(CODE.source, 'g');
+    let result = '';
+    let last = 0;
+    let match: RegExpExecArray | null;
+    while ((match = code.exec(markdown)) !== null) {
+        if (!skipInline && match[2] === undefined) continue;
+        const start = match.index + (match[1] ?? '').length;
+        const end = match.index + match[0].length;
+        result += transform(markdown.slice(last, start)) + markdown.slice(start, end);
+        last = end;
+    }
+    return result + transform(markdown.slice(last));
+}
@@ -0,0 +1,409 @@
+import { App, FuzzySuggestModal, Modal, Setting } from 'obsidian';
+import type { CommentActions, DiffRow, GitHubComment, GitHubLabel, GitHubPost, GitHubSeries, ReviewItem, SyncLogEntry } from './types';
+
+const EXCERPT_LENGTH = 280;
+
+export class OGDModal extends Modal {
+	private answered = false;
+
+	constructor(app: App, question: string, private onSubmit: (result: boolean) => void) {
+		super(app);
+		this.setTitle("OGD Confirmation Dialog:");
+		let approve = false;
+		new Setting(this.contentEl)
+			.setName(question)
+			.addToggle(toggle => {
+				toggle.setValue(approve)
+					.onChange(async (value) => {
+						approve = value;
+					})
+			});
+
+		new Setting(this.contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText('Submit')
+					.setCta()
+					.onClick(() => {
+						this.answered = true;
+						this.close();
+						onSubmit(approve);
+					}));
+	}
+
+	// Closing the dialog with Esc or its close button declines
+	onClose() {
+		if (!this.answered) {
+			this.answered = true;
+			this.onSubmit(false);
+		}
+	}
+}
+
+/**
+ * Lists every post a sync would touch with a side-by-side diff of its frontmatter
+ * and body (vault on the left, GitHub on the right) and lets each one be approved
+ * or skipped individually. Conflicts and removals are listed but left unchecked.
+ */
+export class OGDReviewModal<T> extends Modal {
+	constructor(app: App, title: string, items: ReviewItem<T>[], onSubmit: (approved: T[]) => void) {
+		super(app);
+		this.setTitle(title);
+		this.modalEl.addClass('ogd-review-modal');
+
+		const approved = new Set(items.filter(item => !item.conflict && !item.destructive));
+
+		for (const item of items) {
+			const changedFields = item.fields.filter(field => field.changed).map(field => field.field);
+			const changedLines = item.body.filter(row => row.type !== 'equal' && row.type !== 'skip').length;
+			const summary = [
+				changedFields.length > 0 ? `Fields: ${changedFields.join(', ')}` : 'Fields unchanged',
+				changedLines > 0 ? `${changedLines} body lines differ` : 'Body unchanged'
+			];
+			if (item.conflict) {
+				summary.unshift('Changed on both sides since the last sync');
+			}
+			if (item.destructive) {
+				summary.unshift('Check to apply');
+			}
+
+			const setting = new Setting(this.contentEl)
+				.setName(`${item.action}: ${item.title}`)
+				.setDesc(summary.join(' · '))
+				.addToggle(toggle => {
+					toggle.setValue(approved.has(item))
+						.onChange(async (value) => {
+							if (value) {
+								approved.add(item);
+							} else {
+								approved.delete(item);
+							}
+						})
+				});
+			if (item.conflict || item.destructive) {
+				setting.settingEl.addClass('ogd-review-conflict');
+			}
+
+			const details = this.contentEl.createEl('details', { cls: 'ogd-review-details' });
+			details.createEl('summary', { text: 'Show changes' });
+			this.renderFields(details, item);
+			this.renderBody(details, item.body);
+		}
+
+		new Setting(this.contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText('Cancel')
+					.onClick(() => this.close()))
+			.addButton((btn) =>
+				btn
+					.setButtonText('Apply selected')
+					.setCta()
+					.onClick(() => {
+						this.close();
+						onSubmit(items.filter(item => approved.has(item)).map(item => item.target));
+					}));
+	}
+
+	private renderFields(containerEl: HTMLElement, item: ReviewItem<T>) {
+		const table = containerEl.createEl('table', { cls: 'ogd-diff-fields' });
+		const header = table.createEl('tr');
+		header.createEl('th', { text: 'Field' });
+		header.createEl('th', { text: 'Vault' });
+		header.createEl('th', { text: 'GitHub' });
+		for (const field of item.fields) {
+			const row = table.createEl('tr', { cls: field.changed ? 'ogd-diff-changed' : undefined });
+			row.createEl('td', { text: field.field });
+			row.createEl('td', { text: field.local });
+			row.createEl('td', { text: field.remote });
+		}
+	}
+
+	private renderBody(containerEl: HTMLElement, rows: DiffRow[]) {
+		if (rows.every(row => row.type === 'equal' || row.type === 'skip')) {
+			containerEl.createEl('p', { text: 'Body unchanged', cls: 'ogd-diff-empty' });
+			return;
+		}
+		const grid = containerEl.createDiv({ cls: 'ogd-diff-body' });
+		grid.createDiv({ text: 'Vault', cls: 'ogd-diff-heading' });
+		grid.createDiv({ text: 'GitHub', cls: 'ogd-diff-heading' });
+		for (const row of rows) {
+			if (row.type === 'skip') {
+				grid.createDiv({ text: `⋯ ${row.skipped} unchanged lines`, cls: 'ogd-diff-skip' });
+				continue;
+			}
+			grid.createDiv({ text: row.left ?? '', cls: `ogd-diff-line ogd-diff-${row.type} ogd-diff-left` });
+			grid.createDiv({ text: row.right ?? '', cls: `ogd-diff-line ogd-diff-${row.type} ogd-diff-right` });
+		}
+	}
+}
+
+/**
+ * Read-only summary of where every post stands, grouped by sync status.
+ */
+export class OGDStatusModal extends Modal {
+	constructor(app: App, groups: { label: string, entries: string[] }[], details: string[], title = "OGD Sync Status") {
+		super(app);
+		this.setTitle(title);
+
+		for (const line of details) {
+			this.contentEl.createEl('p', { text: line, cls: 'ogd-status-detail' });
+		}
+
+		for (const group of groups) {
+			const details = this.contentEl.createEl('details', { cls: 'ogd-status-group' });
+			details.createEl('summary', { text: `${group.label} (${group.entries.length})` });
+			const list = details.createEl('ul');
+			for (const entry of group.entries) {
+				list.createEl('li', { text: entry });
+			}
+		}
+	}
+}
+
+/**
+ * Labels about to be deleted, each with its colour and description, all checked
+ * to begin with. Nothing happens until "Delete selected" is clicked.
+ */
+export class OGDPruneModal extends Modal {
+	constructor(app: App, title: string, labels: GitHubLabel[], onSubmit: (approved: GitHubLabel[]) => void) {
+		super(app);
+		this.setTitle(title);
+		this.contentEl.createEl('p', { text: `${labels.length} labels are not used by any discussion, issue or pull request.`, cls: 'ogd-status-detail' });
+
+		const approved = new Set(labels);
+		for (const label of labels) {
+			const setting = new Setting(this.contentEl)
+				.setName(label.name)
+				.setDesc(label.description)
+				.addToggle(toggle => {
+					toggle.setValue(true)
+						.onChange(async (value) => {
+							if (value) {
+								approved.add(label);
+							} else {
+								approved.delete(label);
+							}
+						})
+				});
+			setting.nameEl.prepend(createSpan({ cls: 'ogd-label-swatch', attr: { style: `background-color: #${label.color}` } }));
+		}
+
+		new Setting(this.contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText('Cancel')
+					.onClick(() => this.close()))
+			.addButton((btn) =>
+				btn
+					.setButtonText('Delete selected')
+					.setWarning()
+					.onClick(() => {
+						this.close();
+						onSubmit(labels.filter(label => approved.has(label)));
+					}));
+	}
+}
+
+/**
+ * Recent sync activity, newest first.
+ */
+export class OGDLogModal extends Modal {
+	constructor(app: App, entries: SyncLogEntry[]) {
+		super(app);
+		this.setTitle("OGD Sync Log");
+
+		if (entries.length === 0) {
+			this.contentEl.createEl('p', { text: 'Nothing has been synced since Obsidian started.', cls: 'ogd-status-detail' });
+			return;
+		}
+		const list = this.contentEl.createEl('ul', { cls: 'ogd-log' });
+		for (const entry of [...entries].reverse()) {
+			const item = list.createEl('li', { cls: `ogd-log-${entry.level}` });
+			item.createSpan({ text: entry.time.toLocaleTimeString(), cls: 'ogd-log-time' });
+			item.createSpan({ text: entry.message });
+		}
+	}
+}
+
+/**
+ * The comments on a post with their replies, and buttons to reply, mark an answer,
+ * hide spam and lock the discussion. Only actions GitHub allows the token are shown.
+ */
+export class OGDCommentsModal extends Modal {
+	constructor(app: App, post: GitHubPost, comments: GitHubComment[], formatDate: (date: Date) => string, actions: CommentActions) {
+		super(app);
+		this.setTitle(`Comments on ${post.title}`);
+		this.modalEl.addClass('ogd-comments-modal');
+
+		if (comments.length === 0) {
+			this.contentEl.createEl('p', { text: 'No comments yet.', cls: 'ogd-status-detail' });
+		}
+		for (const comment of comments) {
+			this.renderComment(comment, comment, formatDate, actions);
+			for (const reply of comment.replies) {
+				this.renderComment(reply, comment, formatDate, actions).settingEl.addClass('ogd-comment-reply');
+			}
+		}
+
+		const footer = new Setting(this.contentEl);
+		if (!post.locked) {
+			footer.addButton((btn) =>
+				btn
+					.setButtonText('Lock discussion')
+					.setWarning()
+					.onClick(() => {
+						this.close();
+						actions.lock();
+					}));
+		}
+		footer.addButton((btn) =>
+			btn
+				.setButtonText('Add comment')
+				.setCta()
+				.onClick(() => {
+					this.close();
+					actions.reply();
+				}));
+	}
+
+	// Replies go to `thread`, since GitHub only nests replies one level deep
+	private renderComment(comment: GitHubComment, thread: GitHubComment, formatDate: (date: Date) => string, actions: CommentActions): Setting {
+		const name = [comment.author?.username ?? 'ghost', formatDate(comment.created)];
+		if (comment.isAnswer) {
+			name.push('✅ Answer');
+		}
+		const body = comment.body.trim();
+		const setting = new Setting(this.contentEl)
+			.setName(name.join(' · '))
+			.setDesc(comment.minimized ? 'Hidden' : body.length > EXCERPT_LENGTH ? `${body.slice(0, EXCERPT_LENGTH)}…` : body)
+			.addExtraButton(btn => btn
+				.setIcon('reply')
+				.setTooltip('Reply')
+				.onClick(() => {
+					this.close();
+					actions.reply(thread);
+				}));
+		if (comment.canMarkAsAnswer && !comment.isAnswer) {
+			setting.addExtraButton(btn => btn
+				.setIcon('check-circle')
+				.setTooltip('Mark as answer')
+				.onClick(() => {
+					this.close();
+					actions.markAsAnswer(comment);
+				}));
+		}
+		if (comment.canMinimize && !comment.minimized) {
+			setting.addExtraButton(btn => btn
+				.setIcon('eye-off')
+				.setTooltip('Hide as spam')
+				.onClick(() => {
+					this.close();
+					actions.hide(comment);
+				}));
+		}
+		setting.addExtraButton(btn => btn
+			.setIcon('external-link')
+			.setTooltip('Open on GitHub')
+			.onClick(() => window.open(comment.url)));
+		return setting;
+	}
+}
+
+/**
+ * Asks for the Markdown text of a new comment or reply.
+ */
+export class OGDReplyModal extends Modal {
+	constructor(app: App, title: string, onSubmit: (body: string) => void) {
+		super(app);
+		this.setTitle(title);
+		let body = '';
+		new Setting(this.contentEl)
+			.setClass('ogd-reply')
+			.addTextArea(text => {
+				text.setPlaceholder('Write in Markdown')
+					.onChange(async (value) => {
+						body = value;
+					});
+				text.inputEl.rows = 8;
+			});
+
+		new Setting(this.contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText('Cancel')
+					.onClick(() => this.close()))
+			.addButton((btn) =>
+				btn
+					.setButtonText('Post')
+					.setCta()
+					.onClick(() => {
+						if (!body.trim()) return;
+						this.close();
+						onSubmit(body);
+					}));
+	}
+}
+
+/**
+ * Display name and description of a series, stored on GitHub in its label.
+ */
+export class OGDSeriesModal extends Modal {
+	constructor(app: App, series: GitHubSeries, onSubmit: (name: string, description: string) => void) {
+		super(app);
+		this.setTitle(`Series ${series.id}`);
+		let name = series.name;
+		let description = series.description ?? '';
+		new Setting(this.contentEl)
+			.setName('Name')
+			.addText(text => {
+				text.setValue(name)
+					.onChange(async (value) => {
+						name = value;
+					});
+			});
+		new Setting(this.contentEl)
+			.setName('Description')
+			.addText(text => {
+				text.setValue(description)
+					.onChange(async (value) => {
+						description = value;
+					});
+			});
+
+		new Setting(this.contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText('Cancel')
+					.onClick(() => this.close()))
+			.addButton((btn) =>
+				btn
+					.setButtonText('Save')
+					.setCta()
+					.onClick(() => {
+						this.close();
+						onSubmit(name.trim() || series.id, description.trim());
+					}));
+	}
+}
+
+/**
+ * Picks one of `items` by fuzzy search on their labels.
+ */
+export class OGDSuggestModal<T> extends FuzzySuggestModal<T> {
+	constructor(app: App, private items: T[], private label: (item: T) => string, private onChoose: (item: T) => void) {
+		super(app);
+	}
+
+	getItems(): T[] {
+		return this.items;
+	}
+
+	getItemText(item: T): string {
+		return this.label(item);
+	}
+
+	onChooseItem(item: T) {
+		this.onChoose(item);
+	}
+}
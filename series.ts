@@ -0,0 +1,110 @@
+import slugify from "slugify";
+import type { GitHubSeries, SeriesPart } from "./types";
+
+// The navigation of a part sits between these markers at the end of its discussion
+const NAVIGATION_START = '<!-- ogd-series -->';
+const NAVIGATION_END = '<!-- /ogd-series -->';
+const NAVIGATION = /\r?\n<!-- ogd-series -->[\s\S]*?<!-- \/ogd-series -->[ \t]*(?:\r?\n)?/;
+const NAVIGATION_TEXT = /<!-- ogd-series -->\r?\n([\s\S]*?)\r?\n<!-- \/ogd-series -->/;
+
+// Separates the display name from the description in a series label's description
+const SEPARATOR = ' | ';
+
+/**
+ * ID of a series as written in frontmatter, which names its label.
+ */
+export function seriesId(series: unknown): string {
+    return slugify(String(series), { lower: true, strict: true });
+}
+
+/**
+ * Series as stored in the description of its label: the display name, then
+ * optionally ` | ` and a description. The ID stands in for a missing name.
+ */
+export function parseSeriesDescription(id: string, text?: string): GitHubSeries {
+    const [name, ...rest] = (text ?? '').split(SEPARATOR);
+    const description = rest.join(SEPARATOR).trim();
+    return { id, name: name.trim() || id, ...(description ? { description } : {}) };
+}
+
+export function formatSeriesDescription(name: string, description?: string): string {
+    return description?.trim() ? `${name.trim()}${SEPARATOR}${description.trim()}` : name.trim();
+}
+
+/**
+ * Parts by `seriesOrder`, those without one last, then by title.
+ */
+export function sortSeriesParts(parts: SeriesPart[]): SeriesPart[] {
+    return [...parts].sort((a, b) =>
+        (a.order ?? Infinity) - (b.order ?? Infinity) || a.title.localeCompare(b.title));
+}
+
+const partLink = (part: SeriesPart): string => part.url ? `[${part.title}](${part.url})` : part.title;
+
+/**
+ * "Part N of M" with links to the previous and next parts, as a quote for the
+ * end of a discussion. `parts` must already be sorted.
+ */
+export function seriesNavigation(series: GitHubSeries, parts: SeriesPart[], index: number): string {
+    const lines = [`> **Part ${index + 1} of ${parts.length}** in the series _${series.name}_`];
+    const links = [];
+    if (index > 0) {
+        links.push(`← Previous: ${partLink(parts[index - 1])}`);
+    }
+    if (index < parts.length - 1) {
+        links.push(`Next: ${partLink(parts[index + 1])} →`);
+    }
+    if (links.length > 0) {
+        lines.push('>', `> ${links.join(' · ')}`);
+    }
+    return lines.join('\n');
+}
+
+/**
+ * The series navigation of an uploaded body as `seriesNavigation` writes it, or
+ * undefined when it has none.
+ */
+export function seriesNavigationOf(body: string): string | undefined {
+    return NAVIGATION_TEXT.exec(body)?.[1].replace(/\r\n/g, '\n');
+}
+
+/**
+ * Body without the series navigation, which only exists on GitHub.
+ */
+export function stripSeriesNavigation(body: string): string {
+    return body.replace(NAVIGATION, '');
+}
+
+/**
+ * Body with the series navigation appended, replacing any already there.
+ */
+export function withSeriesNavigation(body: string, navigation: string, eol = '\n'): string {
+    const base = stripSeriesNavigation(body);
+    const separator = base.endsWith(eol) ? eol : eol + eol;
+    return `${base}${separator}${[NAVIGATION_START, ...navigation.split('\n'), NAVIGATION_END].join(eol)}${eol}`;
+}
+
+/**
+ * Name of the index note of a series, without the characters file names cannot hold.
+ */
+export function seriesIndexName(series: GitHubSeries): string {
+    return series.name.replace(/[\\/:*?"<>|#^[\]]/g, '').trim() || series.id;
+}
+
+/**
+ * Contents of the index note of a series: its name, description and parts in
+ * order as links to their notes.
+ */
+export function seriesIndexNote(series: GitHubSeries, parts: SeriesPart[]): string {
+    const lines = [
+        '%% Generated from the series\' notes; edits are overwritten %%',
+        '',
+        `# Series: ${series.name}`,
+        ''
+    ];
+    if (series.description) {
+        lines.push(series.description, '');
+    }
+    parts.forEach((part, index) => lines.push(`${index + 1}. [[${part.path.replace(/\.md$/, '')}|${part.title}]]`));
+    return lines.join('\n') + '\n';
+}
@@ -0,0 +1,101 @@
+import type { LocalSnapshot, RemoteSnapshot, SyncState, SyncStatus } from "./types";
+
+/**
+ * Stable, non-cryptographic 53-bit hash (cyrb53) of a note's content.
+ * Only used to tell whether a note changed since it was last synced.
+ */
+export function hashContent(content: string): string {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < content.length; i++) {
+        const ch = content.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+// Every status with how it reads in the UI, most urgent first
+export const SYNC_STATUS_LABELS: [SyncStatus, string][] = [
+    ['conflict', 'Changed on both sides'],
+    ['local-changed', 'Changed in the vault'],
+    ['remote-changed', 'Changed on Github'],
+    ['local-only', 'Only in the vault'],
+    ['remote-only', 'Only on Github'],
+    ['local-deleted', 'Deleted in the vault'],
+    ['remote-deleted', 'Deleted on Github'],
+    ['unchanged', 'In sync'],
+];
+
+export function syncManifest(state: SyncState) {
+
+    // A missing remote must only be passed when every discussion was fetched,
+    // otherwise a discussion that merely was not fetched looks deleted
+    const classify = (key: string, local?: LocalSnapshot, remote?: RemoteSnapshot): SyncStatus => {
+        const record = state[key];
+
+        // With a record the post was synced before, so the missing side was deleted
+        if (local && !remote) return record ? 'remote-deleted' : 'local-only';
+        if (remote && !local) {
+            if (!record) return 'remote-only';
+            // Edited on GitHub after the note was deleted, so it is brought back
+            return remote.updated.getTime() > new Date(record.remoteUpdated).getTime() ? 'remote-only' : 'local-deleted';
+        }
+        if (!local || !remote) return 'unchanged';
+
+        // Never synced from this vault, so there is no common ancestor to tell which
+        // side changed. The caller compares the two and records them when they match.
+        if (!record) return 'conflict';
+
+        // The mtime check is only a shortcut; touching a file without editing it
+        // (e.g. a plugin rewriting it verbatim) should not count as a change
+        const localChanged = local.mtime !== record.localMtime && local.hash !== record.hash;
+        const remoteChanged = remote.updated.getTime() > new Date(record.remoteUpdated).getTime();
+
+        if (localChanged && remoteChanged) return 'conflict';
+        if (localChanged) return 'local-changed';
+        if (remoteChanged) return 'remote-changed';
+        return 'unchanged';
+    }
+
+    const record = (key: string, local: LocalSnapshot, remote: RemoteSnapshot) => {
+        state[key] = {
+            hash: local.hash,
+            localMtime: local.mtime,
+            remoteUpdated: remote.updated.toISOString(),
+            comments: state[key]?.comments
+        };
+    }
+
+    // Comments do not change a discussion's update time, so they are tracked on their own
+    const commentsChanged = (key: string, comments: string): boolean => state[key]?.comments !== comments;
+
+    const recordComments = (key: string, comments: string) => {
+        if (state[key]) {
+            state[key].comments = comments;
+        }
+    }
+
+    const forget = (key: string) => {
+        delete state[key];
+    }
+
+    // For changes the plugin made to a discussion itself, so they are not mistaken for remote edits
+    const recordRemote = (key: string, remote: RemoteSnapshot) => {
+        if (state[key]) {
+            state[key].remoteUpdated = remote.updated.toISOString();
+        }
+    }
+
+    // Moves a record to a new key, unless one is already stored under it
+    const rename = (from: string, to: string) => {
+        if (state[from] && !state[to]) {
+            state[to] = state[from];
+            delete state[from];
+        }
+    }
+
+    return { classify, record, recordRemote, recordComments, commentsChanged, forget, rename };
+}
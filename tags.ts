@@ -0,0 +1,92 @@
+import slugify from "slugify";
+import { mapOutsideCode } from "./markdown";
+
+// #tag, #nested/tag and #tag-with_dashes, after whitespace or an opening bracket;
+// `](` is captured too so the #anchor of a link destination can be skipped
+const INLINE_TAG = /(^|\s|\]?\()#([^\s#.,;:!?()[\]{}"'`<>|\\=*+&^%$@~]+)/g;
+
+// Letters and numbers of any script are kept; built with the constructor as `\p{}` needs ES2018
+const NOT_TAG_CHARACTER = new RegExp('[^\\p{L}\\p{N}\\s_-]', 'gu');
+// Symbols that tell tags apart, as in c, c++ and c#, are spelled out rather than dropped
+const SYMBOL_WORDS: Record<string, string> = { '+': ' plus ', '#': ' sharp ', '.': ' ' };
+
+/**
+ * The one spelling of a tag used in the vault and in labels: lower case,
+ * dashes for spaces and dots, `+` and `#` as words, no other punctuation, with
+ * `/` kept between the levels of a nested tag, then replaced by its alias
+ * target if it has one. Empty when the tag has no letters or numbers.
+ */
+export function normalizeTag(tag: string, aliases: Record<string, string> = {}): string {
+    const normalized = tag.trim().replace(/^#/, '').split('/')
+        .map(part => slugify(part.replace(/[+#.]/g, symbol => SYMBOL_WORDS[symbol]), { lower: true, remove: NOT_TAG_CHARACTER }))
+        .filter(part => part !== '')
+        .join('/');
+    return Object.prototype.hasOwnProperty.call(aliases, normalized) ? aliases[normalized] : normalized;
+}
+
+const warnUnusableTag = (tag: string) => console.warn('OGD: ignoring tag without letters or numbers', tag);
+
+/**
+ * Normalized tags, each once, in their original order. Tags that normalize
+ * to nothing are left out and passed to `onUnusable`.
+ */
+export function normalizeTags(tags: string[], aliases: Record<string, string> = {}, onUnusable: (tag: string) => void = warnUnusableTag): string[] {
+    const normalized: string[] = [];
+    for (const tag of tags) {
+        const name = normalizeTag(tag, aliases);
+        if (name === '') {
+            onUnusable(tag);
+        } else if (!normalized.includes(name)) {
+            normalized.push(name);
+        }
+    }
+    return normalized;
+}
+
+/**
+ * Tags of a frontmatter `tags` value, which Obsidian also accepts as a single
+ * string of tags separated by commas or spaces.
+ */
+export function frontMatterTags(value: unknown): string[] {
+    if (value === undefined || value === null) return [];
+    if (Array.isArray(value)) return value.filter(tag => tag !== null && tag !== undefined).map(String);
+    return String(value).split(/[,\s]+/).filter(tag => tag !== '');
+}
+
+/**
+ * Tags written as #tag in the body, outside of code. Numbers such as #123 are
+ * not tags in Obsidian and are left out.
+ */
+export function inlineTags(body: string): string[] {
+    const tags: string[] = [];
+    mapOutsideCode(body, text => {
+        text.replace(INLINE_TAG, (match, before: string, tag: string) => {
+            if (before !== '](' && !/^\d+$/.test(tag)) {
+                tags.push(tag);
+            }
+            return match;
+        });
+        return text;
+    });
+    return tags;
+}
+
+/**
+ * Alias table from `alias: tag` lines, with both sides normalized.
+ */
+export function parseTagAliases(text: string): Record<string, string> {
+    const aliases: Record<string, string> = {};
+    for (const line of text.split(/\r?\n/)) {
+        const [alias, ...rest] = line.split(':');
+        const from = normalizeTag(alias);
+        const to = normalizeTag(rest.join(':'));
+        if (from && to && from !== to) {
+            aliases[from] = to;
+        }
+    }
+    return aliases;
+}
+
+export function formatTagAliases(aliases: Record<string, string>): string {
+    return Object.entries(aliases).map(([alias, target]) => `${alias}: ${target}`).join('\n');
+}
@@ -0,0 +1,105 @@
+import { strict as assert } from "assert";
+import { test } from "node:test";
+import { githubContentsUploader } from "../attachments";
+import { GitHubApiError, GitHubAuthError, GitHubRateLimitError, GitHubValidationError } from "../errors";
+import { ErrorClass, json, mockFetch } from "./http";
+
+const DATA = new TextEncoder().encode('attachment').buffer;
+
+/**
+ * An uploader whose requests are answered by `responses` in order, recording
+ * every request it makes.
+ */
+const mockUploader = (responses: Response[], branch?: string) => {
+    const { fetch, requests } = mockFetch(responses);
+    const uploader = githubContentsUploader({
+        auth: 'token',
+        repo: { owner: 'owner', name: 'repo' },
+        branch,
+        folder: '/attachments/',
+        apiUrl: 'http://localhost',
+        fetch
+    });
+    return { uploader, requests };
+}
+
+test('the default branch is looked up once and used for every upload', async () => {
+    const { uploader, requests } = mockUploader([
+        json({ default_branch: 'trunk' }),
+        json({ download_url: 'http://localhost/a.png' }),
+        json({ download_url: 'http://localhost/b.png' })
+    ]);
+    await uploader.upload('a.png', DATA);
+    await uploader.upload('b.png', DATA);
+
+    assert.deepEqual(requests.map(request => request.url.replace(/\/[0-9a-f]+-/, '/<hash>-')), [
+        'http://localhost/repos/owner/repo',
+        'http://localhost/repos/owner/repo/contents/attachments/<hash>-a.png?ref=trunk',
+        'http://localhost/repos/owner/repo/contents/attachments/<hash>-b.png?ref=trunk'
+    ]);
+});
+
+test('a configured branch is used without a lookup', async () => {
+    const { uploader, requests } = mockUploader([json({ download_url: 'http://localhost/a.png' })], 'pages');
+    await uploader.upload('a.png', DATA);
+    assert.equal(requests.length, 1);
+    assert.match(requests[0].url, /\?ref=pages$/);
+});
+
+test('a file that already exists is not uploaded again', async () => {
+    const { uploader, requests } = mockUploader([json({ download_url: 'http://localhost/existing.png' })], 'main');
+    assert.equal(await uploader.upload('diagram.png', DATA), 'http://localhost/existing.png');
+    assert.deepEqual(requests.map(request => request.method), ['GET']);
+});
+
+test('a missing file is created with a PUT on the branch', async () => {
+    const { uploader, requests } = mockUploader([
+        json({ message: 'Not Found' }, 404),
+        json({ content: { download_url: 'http://localhost/new.png' } }, 201)
+    ], 'main');
+    assert.equal(await uploader.upload('my diagram.png', DATA), 'http://localhost/new.png');
+
+    const put = requests[1];
+    assert.equal(put.method, 'PUT');
+    assert.match(put.url, /^http:\/\/localhost\/repos\/owner\/repo\/contents\/attachments\/[0-9a-f]+-my-diagram\.png$/);
+    assert.deepEqual(put.body, {
+        message: 'Upload my diagram.png',
+        content: Buffer.from('attachment').toString('base64'),
+        branch: 'main'
+    });
+});
+
+test('the same content gets the same file name', async () => {
+    const { uploader, requests } = mockUploader([
+        json({ download_url: 'http://localhost/a.png' }),
+        json({ download_url: 'http://localhost/a.png' })
+    ], 'main');
+    await uploader.upload('a.png', DATA);
+    await uploader.upload('a.png', new TextEncoder().encode('attachment').buffer);
+    assert.equal(requests[0].url, requests[1].url);
+});
+
+test('error responses are mapped to their error class', async () => {
+    const cases: [Response, ErrorClass][] = [
+        [json({ message: 'Bad credentials' }, 401), GitHubAuthError],
+        [json({ message: 'Resource not accessible by integration' }, 403), GitHubAuthError],
+        [json({ message: 'API rate limit exceeded' }, 403, { 'x-ratelimit-remaining': '0' }), GitHubRateLimitError],
+        [json({ message: 'Secondary rate limit' }, 429, { 'retry-after': '30' }), GitHubRateLimitError],
+        [json({ message: 'Invalid request' }, 422), GitHubValidationError],
+        [json({ message: 'Server error' }, 500), GitHubApiError],
+    ];
+    for (const [response, errorClass] of cases) {
+        const { uploader } = mockUploader([json({ message: 'Not Found' }, 404), response], 'main');
+        await assert.rejects(uploader.upload('a.png', DATA), (error: unknown) => {
+            assert.ok(error instanceof errorClass, `${response.status} is a ${errorClass.name}`);
+            assert.equal((error as GitHubApiError).status, response.status);
+            return true;
+        });
+    }
+});
+
+test('a failed branch lookup is an error, not an upload', async () => {
+    const { uploader, requests } = mockUploader([json({ message: 'Bad credentials' }, 401)]);
+    await assert.rejects(uploader.upload('a.png', DATA), GitHubAuthError);
+    assert.equal(requests.length, 1);
+});
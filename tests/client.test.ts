@@ -0,0 +1,60 @@
+import { strict as assert } from "assert";
+import { test } from "node:test";
+import { githubClient } from "../client";
+import { GitHubNotFoundError } from "../errors";
+import type { GitHubTransport } from "../types";
+
+const comments = (totalCount: number, updatedAt = '2024-05-01T10:00:00Z', reactions = 0, replies: string[] = []) => ({
+    totalCount,
+    nodes: totalCount === 0 ? [] : [{
+        updatedAt,
+        isAnswer: false,
+        isMinimized: false,
+        reactions: { totalCount: reactions },
+        replies: {
+            totalCount: replies.length,
+            nodes: replies.map(updatedAt => ({ updatedAt, isMinimized: false, reactions: { totalCount: 0 } }))
+        }
+    }]
+});
+
+/**
+ * A client whose fingerprint lookups are answered from `discussions`, failing
+ * like GitHub does when one of the looked up IDs does not exist.
+ */
+const mockClient = (discussions: Record<string, unknown>) => {
+    const lookups: string[][] = [];
+    const transport: GitHubTransport = {
+        request: async (query: string, variables?: Record<string, unknown>) => {
+            const ids = variables!.ids as string[];
+            lookups.push(ids);
+            const missing = ids.find(id => !discussions[id]);
+            if (missing) throw new GitHubNotFoundError(`Could not resolve to a node with the global id of '${missing}'`, 200, 'NOT_FOUND');
+            return { nodes: ids.map(id => ({ id, comments: discussions[id] })) } as any;
+        },
+        rateLimit: () => undefined,
+        scopes: () => undefined
+    };
+    const client = githubClient({ transport, repo: { owner: 'owner', name: 'repo' }, mappings: { tagLabelPrefix: 'tag/', seriesLabelPrefix: 'series/' } });
+    return { client, lookups };
+}
+
+test('the comments fingerprint changes with new replies, edits and reactions', async () => {
+    const { client } = mockClient({
+        base: comments(1),
+        replied: comments(1, '2024-05-01T10:00:00Z', 0, ['2024-05-02T10:00:00Z']),
+        edited: comments(1, '2024-05-02T10:00:00Z'),
+        reacted: comments(1, '2024-05-01T10:00:00Z', 1),
+        same: comments(1)
+    });
+    const fingerprints = await client.getCommentsFingerprints(['base', 'replied', 'edited', 'reacted', 'same']);
+    assert.equal(new Set(fingerprints.values()).size, 4);
+    assert.equal(fingerprints.get('same'), fingerprints.get('base'));
+});
+
+test('discussions that no longer exist are left out of the fingerprints', async () => {
+    const { client, lookups } = mockClient({ one: comments(0), two: comments(2) });
+    const fingerprints = await client.getCommentsFingerprints(['one', 'gone', 'two']);
+    assert.deepEqual([...fingerprints.keys()], ['one', 'two']);
+    assert.deepEqual(lookups, [['one', 'gone', 'two'], ['one'], ['gone'], ['two']]);
+});
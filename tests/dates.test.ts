@@ -0,0 +1,63 @@
+import { strict as assert } from "assert";
+import { test } from "node:test";
+import { dateTransform, ISO_8601_FORMAT, parseDate } from "../dates";
+import { fieldMapper } from "../fields";
+
+// West of UTC, where midnight UTC is still the day before
+process.env.TZ = 'America/New_York';
+
+const day = (value: unknown, preferredFormat = 'YYYY-MM-DD') => parseDate(value, preferredFormat)?.format('YYYY-MM-DD');
+
+test('dates are read in the preferred format first, then in common shapes', () => {
+    assert.equal(day('01/05/2024', 'DD/MM/YYYY'), '2024-05-01');
+    assert.equal(day('05/01/2024'), '2024-05-01');
+    assert.equal(day('1.5.2024'), undefined);
+    assert.equal(day('01.05.2024'), '2024-05-01');
+    assert.equal(day('May 1, 2024'), '2024-05-01');
+    assert.equal(day(' 1 May 2024 '), '2024-05-01');
+    assert.equal(day('2024-05-01 10:30'), '2024-05-01');
+    assert.equal(day('someday'), undefined);
+});
+
+test('ISO dates keep their time zone offset', () => {
+    assert.equal(parseDate('2024-05-01T23:30:00+02:00', 'YYYY-MM-DD')!.format(ISO_8601_FORMAT), '2024-05-01T23:30:00+02:00');
+    assert.equal(parseDate('2024-05-01T23:30:00Z', 'YYYY-MM-DD')!.format(ISO_8601_FORMAT), '2024-05-01T23:30:00+00:00');
+});
+
+test('YAML dates stay on their UTC day', () => {
+    const yamlDate = new Date('2024-05-01T00:00:00Z');
+    assert.equal(day(yamlDate), '2024-05-01');
+    assert.equal(dateTransform('YYYY-MM-DD', 'YYYY-MM-DD').toRemote(yamlDate), '2024-05-01');
+    assert.equal(day(new Date('invalid')), undefined);
+});
+
+test('dates are converted between the vault and GitHub formats', () => {
+    const transform = dateTransform('DD/MM/YYYY', ISO_8601_FORMAT);
+    assert.equal(transform.toRemote('2024-05-01T10:00:00+02:00'), '2024-05-01T10:00:00+02:00');
+    assert.equal(transform.toLocal('2024-05-01T10:00:00+02:00'), '01/05/2024');
+});
+
+test('empty dates are dropped', () => {
+    const transform = dateTransform('YYYY-MM-DD', ISO_8601_FORMAT);
+    for (const value of ['', null, undefined]) {
+        assert.equal(transform.toRemote(value), undefined);
+        assert.equal(transform.toLocal(value), undefined);
+    }
+    assert.equal(parseDate('   ', 'YYYY-MM-DD'), null);
+});
+
+test('an unrecognised date fails the upload naming its field, and is kept as written on download', () => {
+    const fields = fieldMapper([{ local: 'published', remote: 'published', target: 'frontmatter' }], false,
+        { published: dateTransform('YYYY-MM-DD', ISO_8601_FORMAT) });
+    assert.throws(() => fields.toRemote({ published: 'someday' }), /^Error: published: "someday" is not a recognised date, expected YYYY-MM-DD$/);
+
+    const warn = console.warn;
+    const warnings: unknown[][] = [];
+    console.warn = (...args: unknown[]) => warnings.push(args);
+    try {
+        assert.deepEqual(fields.toLocal({ published: 'someday' }, []), { published: 'someday' });
+    } finally {
+        console.warn = warn;
+    }
+    assert.equal(warnings.length, 1);
+});
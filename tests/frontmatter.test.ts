@@ -0,0 +1,103 @@
+import { strict as assert } from "assert";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { test } from "node:test";
+import { parseFrontMatter, stringifyFrontMatter, updateFrontMatter } from "../frontmatter";
+
+const fixture = (name: string): string => readFileSync(join("tests", "fixtures", "frontmatter", name), "utf8");
+
+const FIXTURES = ['hr-in-body.md', 'dashes-in-value.md', 'crlf.md', 'bom.md', 'no-frontmatter.md', 'empty.md', 'dots-terminator.md', 'unterminated.md'];
+
+test('a --- horizontal rule in the body stays in the body', () => {
+    const doc = parseFrontMatter(fixture('hr-in-body.md'));
+    assert.deepEqual(doc.frontMatter, { title: 'Rules' });
+    assert.equal(doc.body, 'Intro\n\n---\n\nAfter the rule\n');
+});
+
+test('--- inside YAML values does not end the frontmatter', () => {
+    const doc = parseFrontMatter(fixture('dashes-in-value.md'));
+    assert.deepEqual(doc.frontMatter, { title: 'a --- b', summary: 'first\n---\nlast\n' });
+    assert.equal(doc.body, 'Body\n');
+});
+
+test('CRLF line endings are detected and kept', () => {
+    const doc = parseFrontMatter(fixture('crlf.md'));
+    assert.equal(doc.eol, '\r\n');
+    assert.deepEqual(doc.frontMatter, { title: 'Windows', tags: ['one'] });
+    assert.equal(doc.body, 'Line one\r\nLine two\r\n');
+
+    const updated = updateFrontMatter(fixture('crlf.md'), frontMatter => {
+        frontMatter.title = 'Changed';
+    });
+    assert.ok(!/[^\r]\n/.test(updated), 'every line ends in CRLF');
+    assert.ok(updated.endsWith('---\r\nLine one\r\nLine two\r\n'));
+});
+
+test('a BOM before the opening --- is allowed', () => {
+    const doc = parseFrontMatter(fixture('bom.md'));
+    assert.ok(doc.hasFrontMatter);
+    assert.deepEqual(doc.frontMatter, { title: 'Bom' });
+    assert.equal(doc.body, 'Body\n');
+});
+
+test('updating frontmatter keeps the BOM in front of it', () => {
+    const updated = updateFrontMatter(fixture('bom.md'), frontMatter => {
+        frontMatter.slug = 'bom';
+    });
+    assert.equal(updated, '\uFEFF---\ntitle: Bom\nslug: bom\n---\nBody\n');
+    assert.equal(updateFrontMatter('\uFEFFBody\n', frontMatter => {
+        frontMatter.slug = 'bom';
+    }), '\uFEFF---\nslug: bom\n---\nBody\n');
+});
+
+test('a note without frontmatter is all body', () => {
+    const content = fixture('no-frontmatter.md');
+    const doc = parseFrontMatter(content);
+    assert.ok(!doc.hasFrontMatter);
+    assert.deepEqual(doc.frontMatter, {});
+    assert.equal(doc.body, content);
+});
+
+test('an empty --- --- block is empty frontmatter', () => {
+    const doc = parseFrontMatter(fixture('empty.md'));
+    assert.ok(doc.hasFrontMatter);
+    assert.deepEqual(doc.frontMatter, {});
+    assert.equal(doc.body, 'Body after an empty block\n');
+});
+
+test('... ends the frontmatter like ---', () => {
+    const doc = parseFrontMatter(fixture('dots-terminator.md'));
+    assert.deepEqual(doc.frontMatter, { title: 'Dots' });
+    assert.equal(doc.body, 'Body\n');
+});
+
+test('an unterminated block is not frontmatter', () => {
+    const content = fixture('unterminated.md');
+    const doc = parseFrontMatter(content);
+    assert.ok(!doc.hasFrontMatter);
+    assert.equal(doc.body, content);
+});
+
+test('parsing and stringifying returns every fixture byte for byte', () => {
+    for (const name of FIXTURES) {
+        const content = fixture(name);
+        assert.equal(stringifyFrontMatter(parseFrontMatter(content)), content, name);
+    }
+});
+
+test('an update that changes nothing returns every fixture with frontmatter byte for byte', () => {
+    for (const name of FIXTURES) {
+        const content = fixture(name);
+        if (!parseFrontMatter(content).hasFrontMatter) continue;
+        assert.equal(updateFrontMatter(content, () => undefined), content, name);
+    }
+});
+
+test('an update rewrites the frontmatter and leaves the body alone', () => {
+    const updated = updateFrontMatter(fixture('hr-in-body.md'), frontMatter => {
+        frontMatter.slug = 'rules';
+    });
+    const doc = parseFrontMatter(updated);
+    assert.deepEqual(doc.frontMatter, { title: 'Rules', slug: 'rules' });
+    assert.equal(doc.body, 'Intro\n\n---\n\nAfter the rule\n');
+});
@@ -0,0 +1,24 @@
+// Canned GitHub responses for the modules that talk to GitHub through `fetch`
+
+// Any error class, for asserting which one a failure is thrown as
+export type ErrorClass = new (...args: any[]) => Error;
+
+export const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+/**
+ * A fetch whose requests are answered by `responses` in order, recording every
+ * request with its JSON body. Errors among the responses are thrown as network
+ * failures.
+ */
+export const mockFetch = (responses: (Response | Error)[]) => {
+    const requests: { url: string, method: string, body?: any }[] = [];
+    const fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+        requests.push({ url: String(input), method: init?.method ?? 'GET', body: init?.body ? JSON.parse(String(init.body)) : undefined });
+        const next = responses.shift();
+        if (!next) throw new Error('no response left');
+        if (next instanceof Error) throw next;
+        return next;
+    };
+    return { fetch, requests };
+}
@@ -0,0 +1,18 @@
+// The parts of the Obsidian API the tested modules import, for running them outside the app
+import { dump, load } from "js-yaml";
+
+export function parseYaml(yaml: string): any {
+    return load(yaml);
+}
+
+export function stringifyYaml(value: unknown): string {
+    return dump(value);
+}
+
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+    return Buffer.from(buffer).toString('base64');
+}
+
+// moment is CommonJS, and the app exposes the moment function itself rather than a module namespace
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+export const moment: typeof import("moment") = require("moment");
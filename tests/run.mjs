@@ -0,0 +1,28 @@
+import esbuild from "esbuild";
+import { spawnSync } from "child_process";
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import process from "process";
+
+// Bundles every tests/*.test.ts with a stand-in for the `obsidian` module, which
+// only exists inside the app, and runs the bundles with node's test runner.
+const outdir = mkdtempSync(join(tmpdir(), "ogd-tests-"));
+const tests = readdirSync("tests").filter(file => file.endsWith(".test.ts"));
+
+try {
+	await esbuild.build({
+		entryPoints: tests.map(file => join("tests", file)),
+		bundle: true,
+		platform: "node",
+		format: "cjs",
+		target: "node16",
+		outdir,
+		alias: { obsidian: "./tests/obsidian.ts" },
+		logLevel: "warning",
+	});
+	const result = spawnSync(process.execPath, ["--test", ...tests.map(file => join(outdir, file.replace(/\.ts$/, ".js")))], { stdio: "inherit" });
+	process.exitCode = result.status ?? 1;
+} finally {
+	rmSync(outdir, { recursive: true, force: true });
+}
@@ -0,0 +1,45 @@
+import { strict as assert } from "assert";
+import { test } from "node:test";
+import { seriesNavigation, seriesNavigationOf, sortSeriesParts, stripSeriesNavigation, withSeriesNavigation } from "../series";
+import type { SeriesPart } from "../types";
+
+const SERIES = { id: 'rust', name: 'Learning Rust' };
+const PARTS: SeriesPart[] = sortSeriesParts([
+    { path: 'blog/Two.md', title: 'Two', order: 2, url: 'https://example.com/two' },
+    { path: 'blog/One.md', title: 'One', order: 1, url: 'https://example.com/one' },
+    { path: 'blog/Three.md', title: 'Three', order: 3 },
+]);
+
+test('parts are sorted by order, then title', () => {
+    assert.deepEqual(PARTS.map(part => part.title), ['One', 'Two', 'Three']);
+    assert.deepEqual(sortSeriesParts([{ path: 'b', title: 'B' }, { path: 'a', title: 'A' }, { path: 'c', title: 'C', order: 9 }]).map(part => part.title), ['C', 'A', 'B']);
+});
+
+test('the navigation links the previous and next parts', () => {
+    assert.equal(seriesNavigation(SERIES, PARTS, 1),
+        '> **Part 2 of 3** in the series _Learning Rust_\n>\n> ← Previous: [One](https://example.com/one) · Next: Three →');
+    assert.equal(seriesNavigation(SERIES, [PARTS[0]], 0), '> **Part 1 of 1** in the series _Learning Rust_');
+});
+
+test('the navigation of an uploaded body reads back as it was written', () => {
+    const navigation = seriesNavigation(SERIES, PARTS, 0);
+    for (const eol of ['\n', '\r\n']) {
+        const body = withSeriesNavigation(`Text${eol}`, navigation, eol);
+        assert.equal(seriesNavigationOf(body), navigation);
+        assert.equal(stripSeriesNavigation(body), `Text${eol}`);
+    }
+    assert.equal(seriesNavigationOf('Text without navigation\n'), undefined);
+});
+
+test('a reordered series changes the navigation of the other parts', () => {
+    const uploaded = withSeriesNavigation('Text\n', seriesNavigation(SERIES, PARTS, 0));
+    const reordered = sortSeriesParts(PARTS.map(part => part.title === 'Three' ? { ...part, order: 0 } : part));
+    assert.notEqual(seriesNavigationOf(uploaded), seriesNavigation(SERIES, reordered, reordered.findIndex(part => part.title === 'One')));
+});
+
+test('appending navigation replaces the one already there', () => {
+    const once = withSeriesNavigation('Text\n', seriesNavigation(SERIES, PARTS, 0));
+    const twice = withSeriesNavigation(once, seriesNavigation(SERIES, PARTS, 2));
+    assert.equal(seriesNavigationOf(twice), seriesNavigation(SERIES, PARTS, 2));
+    assert.equal(twice.match(/ogd-series -->/g)!.length, 2);
+});
@@ -0,0 +1,65 @@
+import { strict as assert } from "assert";
+import { test } from "node:test";
+import { hashContent, syncManifest } from "../sync";
+import type { SyncState } from "../types";
+
+const SYNCED = new Date('2024-05-01T10:00:00Z');
+const LATER = new Date('2024-05-02T10:00:00Z');
+
+const synced = (): SyncState => ({
+    post: { hash: hashContent('note'), localMtime: 1000, remoteUpdated: SYNCED.toISOString() }
+});
+
+test('a post unchanged on both sides since its record is unchanged', () => {
+    const manifest = syncManifest(synced());
+    assert.equal(manifest.classify('post', { hash: hashContent('note'), mtime: 1000 }, { updated: SYNCED }), 'unchanged');
+    // Touched without being edited
+    assert.equal(manifest.classify('post', { hash: hashContent('note'), mtime: 2000 }, { updated: SYNCED }), 'unchanged');
+});
+
+test('the side that changed since the record is the changed one', () => {
+    const manifest = syncManifest(synced());
+    assert.equal(manifest.classify('post', { hash: hashContent('edited'), mtime: 2000 }, { updated: SYNCED }), 'local-changed');
+    assert.equal(manifest.classify('post', { hash: hashContent('note'), mtime: 1000 }, { updated: LATER }), 'remote-changed');
+    assert.equal(manifest.classify('post', { hash: hashContent('edited'), mtime: 2000 }, { updated: LATER }), 'conflict');
+});
+
+test('a pair without a record is a conflict however recently each side changed', () => {
+    const manifest = syncManifest({});
+    assert.equal(manifest.classify('post', { hash: hashContent('note'), mtime: LATER.getTime() }, { updated: SYNCED }), 'conflict');
+    assert.equal(manifest.classify('post', { hash: hashContent('note'), mtime: SYNCED.getTime() }, { updated: LATER }), 'conflict');
+});
+
+test('a missing side is a deletion only when the post was synced before', () => {
+    const recorded = syncManifest(synced());
+    assert.equal(recorded.classify('post', { hash: hashContent('note'), mtime: 1000 }), 'remote-deleted');
+    assert.equal(recorded.classify('post', undefined, { updated: SYNCED }), 'local-deleted');
+    assert.equal(recorded.classify('post', undefined, { updated: LATER }), 'remote-only');
+
+    const unrecorded = syncManifest({});
+    assert.equal(unrecorded.classify('post', { hash: hashContent('note'), mtime: 1000 }), 'local-only');
+    assert.equal(unrecorded.classify('post', undefined, { updated: SYNCED }), 'remote-only');
+});
+
+test('recording a post keeps its comments and makes it unchanged', () => {
+    const state = synced();
+    const manifest = syncManifest(state);
+    manifest.recordComments('post', '2:2024-05-01T09:00:00.000Z');
+    manifest.record('post', { hash: hashContent('edited'), mtime: 2000 }, { updated: LATER });
+
+    assert.equal(manifest.classify('post', { hash: hashContent('edited'), mtime: 2000 }, { updated: LATER }), 'unchanged');
+    assert.ok(!manifest.commentsChanged('post', '2:2024-05-01T09:00:00.000Z'));
+    assert.ok(manifest.commentsChanged('post', '3:2024-05-02T09:00:00.000Z'));
+});
+
+test('records move to a new key unless one is already there', () => {
+    const state = synced();
+    const manifest = syncManifest(state);
+    manifest.rename('post', 'D_1');
+    assert.deepEqual(Object.keys(state), ['D_1']);
+
+    state.other = { ...state.D_1, hash: 'other' };
+    manifest.rename('other', 'D_1');
+    assert.equal(state.D_1.hash, hashContent('note'));
+    assert.ok(state.other);
+});
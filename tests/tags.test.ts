@@ -0,0 +1,50 @@
+import { strict as assert } from "assert";
+import { test } from "node:test";
+import { inlineTags, normalizeTag, normalizeTags, parseTagAliases } from "../tags";
+
+test('tags are lower case with dashes for spaces', () => {
+    assert.equal(normalizeTag('#Web Dev'), 'web-dev');
+    assert.equal(normalizeTag(' dev/TypeScript '), 'dev/typescript');
+    assert.equal(normalizeTag('snake_case'), 'snake_case');
+});
+
+test('symbols that tell tags apart are spelled out', () => {
+    assert.equal(normalizeTag('C'), 'c');
+    assert.equal(normalizeTag('C++'), 'c-plus-plus');
+    assert.equal(normalizeTag('c#'), 'c-sharp');
+    assert.equal(normalizeTag('#F#'), 'f-sharp');
+    assert.equal(normalizeTag('node.js'), 'node-js');
+    assert.notEqual(normalizeTag('node.js'), normalizeTag('nodejs'));
+});
+
+test('letters and numbers of every script are kept or transliterated', () => {
+    assert.equal(normalizeTag('日本語'), '日本語');
+    assert.equal(normalizeTag('Русский язык'), 'russkij-yazyk');
+    assert.equal(normalizeTag('Café'), 'cafe');
+    assert.equal(normalizeTag('notes/日本語'), 'notes/日本語');
+    assert.equal(normalizeTag('2024'), '2024');
+});
+
+test('aliases replace the normalized tag', () => {
+    const aliases = parseTagAliases('TS: TypeScript\ncpp: C++');
+    assert.deepEqual(aliases, { ts: 'typescript', cpp: 'c-plus-plus' });
+    assert.equal(normalizeTag('#ts', aliases), 'typescript');
+    assert.equal(normalizeTag('CPP', aliases), 'c-plus-plus');
+});
+
+test('tags named like object properties are not aliased', () => {
+    assert.equal(normalizeTag('constructor'), 'constructor');
+    assert.equal(normalizeTag('#toString', { ts: 'typescript' }), 'tostring');
+});
+
+test('normalizeTags keeps each tag once and reports the ones that normalize to nothing', () => {
+    const unusable: string[] = [];
+    const tags = normalizeTags(['C++', 'c++', 'c#', '!!!', 'Web Dev', '-', 'web-dev'], {}, tag => unusable.push(tag));
+    assert.deepEqual(tags, ['c-plus-plus', 'c-sharp', 'web-dev']);
+    assert.deepEqual(unusable, ['!!!', '-']);
+});
+
+test('inline tags are read outside of code and link destinations', () => {
+    assert.deepEqual(inlineTags('#one and (#two) but not #123, `#code` or a#b'), ['one', 'two']);
+    assert.deepEqual(inlineTags('See [the section](#section-2) (#three)'), ['three']);
+});
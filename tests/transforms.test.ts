@@ -0,0 +1,122 @@
+import { strict as assert } from "assert";
+import { test } from "node:test";
+import { linkDisplay, MARKDOWN_TRANSFORMS, markdownPipeline, noteSection } from "../transforms";
+import type { LocalTransformContext, MarkdownTransform, TransformContext } from "../types";
+
+const context: TransformContext = {
+    embed: () => undefined,
+    link: linkpath => linkpath === 'Published' ? 'https://github.com/owner/repo/discussions/1' : undefined
+};
+const localContext: LocalTransformContext = {
+    note: url => url === 'https://github.com/owner/repo/discussions/1' ? 'Published' : undefined
+};
+
+const transform = (id: string): MarkdownTransform => MARKDOWN_TRANSFORMS.find(transform => transform.id === id)!;
+const toRemote = (id: string, markdown: string) => transform(id).toRemote(markdown, context);
+const toLocal = (id: string, markdown: string) => transform(id).toLocal!(markdown, localContext);
+
+test('embeds are replaced by what the context returns, and kept otherwise', () => {
+    const embeds = transform('embeds').toRemote('![[Other#Part|alias]]\n![[Kept]]\n`![[Code]]`', {
+        ...context,
+        embed: (linkpath, subpath) => linkpath === 'Other' ? `<${subpath}>` : undefined
+    });
+    assert.equal(embeds, '<#Part>\n![[Kept]]\n`![[Code]]`');
+});
+
+test('comments are stripped outside of code', () => {
+    assert.equal(toRemote('comments', 'Before %%hidden%% after\n%%\nmulti\n%%\n`%%kept%%`'), 'Before  after\n\n`%%kept%%`');
+});
+
+test('block IDs are stripped from the end of paragraphs', () => {
+    assert.equal(toRemote('blockReferences', 'A paragraph ^para-1\n\n^list\nnot^an-id'), 'A paragraph\n\n\nnot^an-id');
+});
+
+test('wikilinks become links to posts or their text', () => {
+    assert.equal(toRemote('wikilinks', '[[Published]], [[Published|the post]], [[Draft#Section]] and ![[Published]]'),
+        '[Published](https://github.com/owner/repo/discussions/1), [the post](https://github.com/owner/repo/discussions/1), Draft > Section and ![[Published]]');
+});
+
+test('links to posts become wikilinks again', () => {
+    assert.equal(toLocal('wikilinks', '[Published](https://github.com/owner/repo/discussions/1), [the post](https://github.com/owner/repo/discussions/1) and [other](https://example.com)'),
+        '[[Published]], [[Published|the post]] and [other](https://example.com)');
+});
+
+test('linkDisplay prefers the alias, then the note name and headings', () => {
+    assert.equal(linkDisplay('folder/Note.md#Heading#Sub'), 'Note > Heading > Sub');
+    assert.equal(linkDisplay('Note#^block'), 'Note');
+    assert.equal(linkDisplay('Note', ' Alias '), 'Alias');
+});
+
+test('callouts become alerts with their title as a bold first line', () => {
+    assert.equal(toRemote('callouts', '> [!tip]- Folded title\n> Body\n\n> [!bug]\n> > [!custom] Nested'),
+        '> [!TIP]\n> **Folded title**\n> Body\n\n> [!CAUTION]\n> > [!NOTE]\n> > **Nested**');
+});
+
+test('callouts named like object properties are notes', () => {
+    assert.equal(toRemote('callouts', '> [!constructor]\n> [!toString] Title'), '> [!NOTE]\n> [!NOTE]\n> **Title**');
+});
+
+test('callouts keep CRLF line endings', () => {
+    assert.equal(toRemote('callouts', '> [!warning] Careful\r\n> Body\r\n\r\n> [!note]\r\n> Plain\r\n'),
+        '> [!WARNING]\r\n> **Careful**\r\n> Body\r\n\r\n> [!NOTE]\r\n> Plain\r\n');
+    assert.equal(toLocal('callouts', '> [!WARNING]\r\n> **Careful**\r\n> Body\r\n\r\n> [!NOTE]\r\n> Plain\r\n'),
+        '> [!warning] Careful\r\n> Body\r\n\r\n> [!note]\r\n> Plain\r\n');
+});
+
+test('callouts of the alert types survive a round trip', () => {
+    for (const eol of ['\n', '\r\n']) {
+        const markdown = ['> [!note] Title', '> Body', '', '> [!tip]', '> Tip', '', '> [!important] Read', '', '> [!warning]', '', '> [!danger] Stop', '']
+            .join(eol);
+        assert.equal(toLocal('callouts', toRemote('callouts', markdown)), markdown, JSON.stringify(eol));
+    }
+});
+
+test('caution alerts download as danger callouts, which upload as caution again', () => {
+    assert.equal(toLocal('callouts', '> [!CAUTION]\n> **Stop**\n> [!CAUTION]'), '> [!danger] Stop\n> [!danger]');
+});
+
+test('callouts inside code blocks are left alone', () => {
+    const markdown = '```\n> [!note] Title\n```\n';
+    assert.equal(toRemote('callouts', markdown), markdown);
+    assert.equal(toLocal('callouts', '```\n> [!NOTE]\n> **Title**\n```\n'), '```\n> [!NOTE]\n> **Title**\n```\n');
+});
+
+test('highlights become mark tags and back', () => {
+    assert.equal(toRemote('highlights', 'Some ==marked text== here'), 'Some <mark>marked text</mark> here');
+    assert.equal(toLocal('highlights', 'Some <mark>marked text</mark> here'), 'Some ==marked text== here');
+    assert.equal(toRemote('highlights', 'a == b and c == d'), 'a == b and c == d');
+});
+
+test('== inside code is not a highlight', () => {
+    assert.equal(toRemote('highlights', 'Compare `a ==b== c` with ==this=='), 'Compare `a ==b== c` with <mark>this</mark>');
+    const fenced = '```js\nif (a ==b== c) {}\n```\n';
+    assert.equal(toRemote('highlights', fenced), fenced);
+});
+
+test('noteSection returns everything under a heading up to the next one of its level', () => {
+    const note = '# Title\nIntro\n## One\nFirst\n### Deeper\nStill one\n## Two\nSecond\n';
+    assert.equal(noteSection(note, '#One'), '## One\nFirst\n### Deeper\nStill one');
+    assert.equal(noteSection(note, '#Two'), '## Two\nSecond');
+    assert.equal(noteSection(note, '#Missing'), undefined);
+    assert.equal(noteSection(note, ''), note);
+});
+
+test('noteSection matches nested subpaths on their last heading', () => {
+    const note = '# Title\n## Parent\n### Child\nChild text\n## Other\n';
+    assert.equal(noteSection(note, '#Parent#Child'), '### Child\nChild text');
+});
+
+test('noteSection returns the block a #^block-id ends', () => {
+    const note = 'First paragraph\n\nSecond paragraph\nstill second ^quote\n\nThird\n';
+    assert.equal(noteSection(note, '#^quote'), 'Second paragraph\nstill second');
+    assert.equal(noteSection(note, '#^missing'), undefined);
+    assert.equal(noteSection('Only line ^id', '#^id'), 'Only line');
+});
+
+test('the pipeline runs enabled transforms forward on upload and backward on download', () => {
+    const pipeline = markdownPipeline(MARKDOWN_TRANSFORMS, { highlights: false });
+    const markdown = '> [!tip] See [[Published]]\n> ==kept== %%gone%%';
+    const remote = pipeline.toRemote(markdown, context);
+    assert.equal(remote, '> [!TIP]\n> **See [Published](https://github.com/owner/repo/discussions/1)**\n> ==kept== ');
+    assert.equal(pipeline.toLocal(remote, localContext), '> [!tip] See [[Published]]\n> ==kept== ');
+});
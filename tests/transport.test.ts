@@ -0,0 +1,134 @@
+import { strict as assert } from "assert";
+import { test } from "node:test";
+import { GitHubApiError, GitHubAuthError, GitHubNotFoundError, GitHubRateLimitError, GitHubValidationError } from "../errors";
+import { githubTransport } from "../transport";
+import { ErrorClass, json, mockFetch } from "./http";
+
+const QUERY = 'query { viewer { login } }';
+const MUTATION = 'mutation { createDiscussion(input: {}) { discussion { id } } }';
+
+/**
+ * A transport whose requests are answered by `responses` in order, recording
+ * every request and every wait instead of sleeping.
+ */
+const mockTransport = (responses: (Response | Error)[]) => {
+    const { fetch, requests } = mockFetch(responses);
+    const waits: number[] = [];
+    const transport = githubTransport({
+        auth: 'token',
+        apiUrl: 'http://localhost/graphql',
+        fetch,
+        sleep: async (ms: number) => {
+            waits.push(ms);
+        }
+    });
+    return { transport, requests, waits };
+}
+
+test('returns the data of a successful response', async () => {
+    const { transport, requests } = mockTransport([json({ data: { viewer: { login: 'octocat' } } })]);
+    assert.deepEqual(await transport.request(QUERY, { a: 1 }), { viewer: { login: 'octocat' } });
+    assert.equal(requests[0].url, 'http://localhost/graphql');
+    assert.deepEqual(requests[0].body, { query: QUERY, variables: { a: 1 } });
+});
+
+test('401 is an auth error and is not retried', async () => {
+    const { transport, requests } = mockTransport([json({ message: 'Bad credentials' }, 401)]);
+    await assert.rejects(transport.request(QUERY), GitHubAuthError);
+    assert.equal(requests.length, 1);
+});
+
+test('GraphQL errors are thrown as the error class of their type', async () => {
+    const cases: [string, ErrorClass][] = [
+        ['NOT_FOUND', GitHubNotFoundError],
+        ['FORBIDDEN', GitHubAuthError],
+        ['INSUFFICIENT_SCOPES', GitHubAuthError],
+        ['RATE_LIMITED', GitHubRateLimitError],
+        ['UNPROCESSABLE', GitHubValidationError],
+    ];
+    for (const [type, errorClass] of cases) {
+        const { transport } = mockTransport([json({ data: null, errors: [{ type, message: `${type} happened` }] })]);
+        await assert.rejects(transport.request(QUERY), (error: unknown) => {
+            assert.ok(error instanceof errorClass, type);
+            assert.equal((error as GitHubApiError).type, type);
+            assert.match((error as Error).message, new RegExp(`${type} happened`));
+            return true;
+        });
+    }
+});
+
+test('5xx responses to queries are retried with growing backoff', async () => {
+    const { transport, requests, waits } = mockTransport([
+        json({}, 502),
+        json({}, 503),
+        json({ data: { ok: true } })
+    ]);
+    assert.deepEqual(await transport.request(QUERY), { ok: true });
+    assert.equal(requests.length, 3);
+    assert.equal(waits.length, 2);
+    assert.ok(waits[1] > waits[0]);
+});
+
+test('5xx responses give up after the last retry', async () => {
+    const { transport, requests } = mockTransport([json({}, 500), json({}, 500), json({}, 500), json({}, 500)]);
+    await assert.rejects(transport.request(QUERY), (error: unknown) => error instanceof GitHubApiError && error.status === 500);
+    assert.equal(requests.length, 4);
+});
+
+test('network failures of queries are retried', async () => {
+    const { transport, requests } = mockTransport([new TypeError('fetch failed'), json({ data: { ok: true } })]);
+    assert.deepEqual(await transport.request(QUERY), { ok: true });
+    assert.equal(requests.length, 2);
+});
+
+test('mutations are not retried after a 5xx or a network failure', async () => {
+    const failed = mockTransport([json({}, 502), json({ data: { ok: true } })]);
+    await assert.rejects(failed.transport.request(MUTATION), GitHubApiError);
+    assert.equal(failed.requests.length, 1);
+
+    const unreachable = mockTransport([new TypeError('fetch failed'), json({ data: { ok: true } })]);
+    await assert.rejects(unreachable.transport.request(MUTATION), GitHubApiError);
+    assert.equal(unreachable.requests.length, 1);
+});
+
+test('secondary rate limits with retry-after are waited out, for mutations too', async () => {
+    const { transport, requests, waits } = mockTransport([
+        json({ message: 'You have exceeded a secondary rate limit' }, 403, { 'retry-after': '2' }),
+        json({ data: { ok: true } })
+    ]);
+    assert.deepEqual(await transport.request(MUTATION), { ok: true });
+    assert.equal(requests.length, 2);
+    assert.deepEqual(waits, [2000]);
+});
+
+test('secondary rate limits without retry-after are not retried for mutations', async () => {
+    const { transport, requests } = mockTransport([
+        json({ message: 'You have exceeded a secondary rate limit' }, 403),
+        json({ data: { ok: true } })
+    ]);
+    await assert.rejects(transport.request(MUTATION), GitHubRateLimitError);
+    assert.equal(requests.length, 1);
+});
+
+test('rate limit headers are tracked and an exhausted limit fails fast until it resets', async () => {
+    const reset = Math.floor(Date.now() / 1000) + 3600;
+    const { transport, requests } = mockTransport([
+        json({ data: { ok: true } }, 200, { 'x-ratelimit-limit': '5000', 'x-ratelimit-remaining': '4999', 'x-ratelimit-used': '1', 'x-ratelimit-reset': String(reset) }),
+        json({ message: 'API rate limit exceeded' }, 403, { 'x-ratelimit-limit': '5000', 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(reset) })
+    ]);
+
+    await transport.request(QUERY);
+    assert.deepEqual(transport.rateLimit(), { limit: 5000, remaining: 4999, used: 1, resetAt: new Date(reset * 1000) });
+
+    await assert.rejects(transport.request(QUERY), (error: unknown) =>
+        error instanceof GitHubRateLimitError && error.resetAt?.getTime() === reset * 1000);
+    // The next request does not even reach GitHub
+    await assert.rejects(transport.request(QUERY), GitHubRateLimitError);
+    assert.equal(requests.length, 2);
+});
+
+test('the scopes of a classic token are read from the response', async () => {
+    const { transport } = mockTransport([json({ data: { ok: true } }, 200, { 'x-oauth-scopes': 'repo, write:discussion' })]);
+    await transport.request(QUERY);
+    assert.deepEqual(transport.scopes(), ['repo', 'write:discussion']);
+});
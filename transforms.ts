@@ -0,0 +1,146 @@
+import { mapOutsideCode } from "./markdown";
+import type { LocalTransformContext, MarkdownTransform, TransformContext } from "./types";
+
+// Obsidian callout types grouped into the five alert types GitHub renders
+const ALERT_TYPES = new Map(Object.entries({
+    note: 'NOTE', info: 'NOTE', abstract: 'NOTE', summary: 'NOTE', tldr: 'NOTE', todo: 'NOTE',
+    example: 'NOTE', quote: 'NOTE', cite: 'NOTE',
+    tip: 'TIP', hint: 'TIP', success: 'TIP', check: 'TIP', done: 'TIP',
+    important: 'IMPORTANT', question: 'IMPORTANT', help: 'IMPORTANT', faq: 'IMPORTANT',
+    warning: 'WARNING', caution: 'WARNING', attention: 'WARNING',
+    danger: 'CAUTION', error: 'CAUTION', failure: 'CAUTION', fail: 'CAUTION', missing: 'CAUTION', bug: 'CAUTION',
+}));
+
+// The callout type each alert downloads as, chosen so it uploads as the same alert again
+const CALLOUT_TYPES: Record<string, string> = {
+    NOTE: 'note', TIP: 'tip', IMPORTANT: 'important', WARNING: 'warning', CAUTION: 'danger'
+};
+
+// The trailing `\r` of CRLF lines is captured so rewritten lines keep their line ending
+const CALLOUT = /^((?:>[ \t]?)+)\[!([\w-]+)\][+-]?[ \t]*([^\r\n]*?)[ \t]*(\r?)$/gm;
+const TITLED_ALERT = /^((?:>[ \t]?)+)\[!(NOTE|TIP|IMPORTANT|WARNING|CAUTION)\][ \t]*\r?\n\1\*\*(.+)\*\*[ \t]*(\r?)$/gm;
+const ALERT = /^((?:>[ \t]?)+)\[!(NOTE|TIP|IMPORTANT|WARNING|CAUTION)\][ \t]*(\r?)$/gm;
+const COMMENT = /%%[\s\S]*?%%/g;
+const HIGHLIGHT = /==(?=\S)([^\n]*?\S)==/g;
+const MARK = /<mark>([^<\n]*)<\/mark>/g;
+const BLOCK_ID = /(^|[ \t]+)\^[A-Za-z0-9-]+[ \t]*$/gm;
+const WIKILINK = /(!?)\[\[([^\]|]+)(?:\|([^\]]*))?\]\]/g;
+const POST_LINK = /(!?)\[([^\]]*)\]\((https?:\/\/[^)\s]+)\)/g;
+const NOTE_EMBED = /!\[\[([^\]|#^]+)([#^][^\]|]*)?(?:\|[^\]]*)?\]\]/g;
+const HEADING = /^(#{1,6})[ \t]+(.*?)[ \t#]*$/;
+
+/**
+ * Text a wikilink reads as once it is no longer a link: its alias, or the note
+ * name followed by the heading it points at.
+ */
+export function linkDisplay(target: string, alias?: string): string {
+    if (alias?.trim()) return alias.trim();
+    const [path, ...headings] = target.split('#').filter(part => part !== '' && !part.startsWith('^'));
+    const name = (path ?? '').split('/').pop()!.replace(/\.md$/, '');
+    return [name, ...headings].filter(part => part !== '').join(' > ');
+}
+
+/**
+ * The part of a note an embed subpath points at: everything under `#Heading`
+ * up to the next heading of the same or a higher level, or the block ending in
+ * `#^block-id`. Undefined when the note has no such heading or block.
+ */
+export function noteSection(markdown: string, subpath: string): string | undefined {
+    if (!subpath) return markdown;
+    const lines = markdown.split(/\r?\n/);
+
+    if (subpath.startsWith('#^')) {
+        const id = new RegExp(`(^|[ \\t]+)\\^${subpath.slice(2)}[ \\t]*$`);
+        const end = lines.findIndex(line => id.test(line));
+        if (end < 0) return undefined;
+        let start = end;
+        while (start > 0 && lines[start - 1].trim() !== '') start--;
+        return lines.slice(start, end + 1).join('\n').replace(id, '');
+    }
+
+    // Nested subpaths (#Parent#Child) are matched on their last heading
+    const heading = subpath.split('#').filter(part => part !== '').pop()?.trim();
+    const start = lines.findIndex(line => HEADING.exec(line)?.[2] === heading);
+    if (start < 0) return undefined;
+    const level = HEADING.exec(lines[start])![1].length;
+    let end = start + 1;
+    while (end < lines.length && !((HEADING.exec(lines[end])?.[1].length ?? 7) <= level)) end++;
+    return lines.slice(start, end).join('\n').trimEnd();
+}
+
+export const MARKDOWN_TRANSFORMS: MarkdownTransform[] = [
+    {
+        id: 'embeds',
+        name: 'Flatten note embeds',
+        description: 'Replace ![[Note]] embeds of notes that are not blog posts with the text of the note',
+        toRemote: (markdown: string, context: TransformContext) => mapOutsideCode(markdown, text =>
+            text.replace(NOTE_EMBED, (match, linkpath: string, subpath?: string) =>
+                context.embed(linkpath.trim(), subpath ?? '') ?? match))
+    },
+    {
+        id: 'comments',
+        name: 'Strip comments',
+        description: 'Remove %%comments%%, which Obsidian never renders',
+        toRemote: (markdown: string) => mapOutsideCode(markdown, text => text.replace(COMMENT, ''))
+    },
+    {
+        id: 'blockReferences',
+        name: 'Strip block IDs',
+        description: 'Remove ^block-id markers from the end of paragraphs',
+        toRemote: (markdown: string) => mapOutsideCode(markdown, text => text.replace(BLOCK_ID, ''))
+    },
+    {
+        id: 'wikilinks',
+        name: 'Wikilinks',
+        description: 'Turn [[Note]] and [[Note|alias]] links to published posts into links to the post, and any other wikilink into its text',
+        toRemote: (markdown: string, context: TransformContext) => mapOutsideCode(markdown, text =>
+            text.replace(WIKILINK, (match, embed: string, target: string, alias?: string) => {
+                if (embed) return match;
+                const url = context.link(target.split('#')[0].trim());
+                return url ? `[${linkDisplay(target, alias)}](${url})` : linkDisplay(target, alias);
+            })),
+        toLocal: (markdown: string, context: LocalTransformContext) => mapOutsideCode(markdown, text =>
+            text.replace(POST_LINK, (match, embed: string, label: string, url: string) => {
+                const target = embed ? undefined : context.note(url);
+                if (!target) return match;
+                return label === linkDisplay(target) ? `[[${target}]]` : `[[${target}|${label}]]`;
+            }))
+    },
+    {
+        id: 'callouts',
+        name: 'Callouts to alerts',
+        description: 'Turn > [!note] callouts into GitHub alerts, keeping their title as a bold first line',
+        toRemote: (markdown: string) => mapOutsideCode(markdown, text =>
+            text.replace(CALLOUT, (match, quote: string, type: string, title: string, cr: string) => {
+                const alert = `${quote}[!${ALERT_TYPES.get(type.toLowerCase()) ?? 'NOTE'}]${cr}`;
+                return title ? `${alert}\n${quote}**${title}**${cr}` : alert;
+            }), false),
+        toLocal: (markdown: string) => mapOutsideCode(markdown, text => text
+            .replace(TITLED_ALERT, (match, quote: string, type: string, title: string, cr: string) => `${quote}[!${CALLOUT_TYPES[type]}] ${title}${cr}`)
+            .replace(ALERT, (match, quote: string, type: string, cr: string) => `${quote}[!${CALLOUT_TYPES[type]}]${cr}`), false)
+    },
+    {
+        id: 'highlights',
+        name: 'Highlights',
+        description: 'Turn ==highlights== into <mark> tags',
+        toRemote: (markdown: string) => mapOutsideCode(markdown, text => text.replace(HIGHLIGHT, '<mark>$1</mark>')),
+        toLocal: (markdown: string) => mapOutsideCode(markdown, text => text.replace(MARK, '==$1=='))
+    },
+];
+
+/**
+ * Runs the enabled transforms in order on upload, and the reversible ones in
+ * reverse order on download. Transforms missing from `enabled` are on.
+ */
+export function markdownPipeline(transforms: MarkdownTransform[], enabled: Record<string, boolean>) {
+
+    const active = transforms.filter(transform => enabled[transform.id] ?? true);
+
+    const toRemote = (markdown: string, context: TransformContext): string =>
+        active.reduce((text, transform) => transform.toRemote(text, context), markdown);
+
+    const toLocal = (markdown: string, context: LocalTransformContext): string =>
+        active.reduceRight((text, transform) => transform.toLocal ? transform.toLocal(text, context) : text, markdown);
+
+    return { toRemote, toLocal };
+}
@@ -0,0 +1,193 @@
+import {
+    GitHubApiError,
+    GitHubAuthError,
+    GitHubNotFoundError,
+    GitHubRateLimitError,
+    GitHubValidationError
+} from "./errors";
+import type { GitHubRateLimit, GitHubTransport, GitHubTransportOptions } from "./types";
+
+const GITHUB_API_URL = 'https://api.github.com/graphql'
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const MUTATION = /^\s*mutation\b/;
+
+/**
+ * Single entry point for every GraphQL query and mutation sent to GitHub.
+ *
+ * Responses are checked for HTTP and GraphQL errors, which are thrown as the typed
+ * errors in `errors.ts`. 5xx responses, network failures and secondary rate limits
+ * are retried with exponential backoff; an exhausted primary rate limit fails fast
+ * until its reset time has passed.
+ *
+ * Mutations are only retried when GitHub says it did not run them, i.e. a secondary
+ * rate limit with `retry-after`. After a network failure or a 5xx the write may
+ * already have happened, and repeating it would create a second discussion or comment.
+ */
+export function githubTransport(options: GitHubTransportOptions): GitHubTransport {
+
+    const apiUrl = options.apiUrl ?? GITHUB_API_URL;
+    const maxRetries = options.maxRetries ?? 3;
+    const maxRetryDelay = options.maxRetryDelay ?? 60000;
+    const doFetch = options.fetch ?? ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+    const wait = options.sleep ?? sleep;
+
+    let rateLimit: GitHubRateLimit | undefined;
+    let scopes: string[] | undefined;
+
+    const readRateLimitHeaders = (headers: Headers) => {
+        const limit = headers.get('x-ratelimit-limit');
+        const remaining = headers.get('x-ratelimit-remaining');
+        const reset = headers.get('x-ratelimit-reset');
+        if (limit === null || remaining === null || reset === null) return;
+        rateLimit = {
+            ...rateLimit,
+            limit: Number(limit),
+            remaining: Number(remaining),
+            used: headers.get('x-ratelimit-used') !== null ? Number(headers.get('x-ratelimit-used')) : undefined,
+            resetAt: new Date(Number(reset) * 1000)
+        };
+    }
+
+    // Queries that select `rateLimit { ... }` report the cost of the query as well
+    const readRateLimitData = (data: any) => {
+        const info = data?.rateLimit;
+        if (!info) return;
+        rateLimit = {
+            limit: info.limit,
+            remaining: info.remaining,
+            used: info.used,
+            cost: info.cost,
+            resetAt: new Date(info.resetAt)
+        };
+    }
+
+    const backoff = (attempt: number) => Math.min(maxRetryDelay, 1000 * 2 ** attempt + Math.random() * 250);
+
+    const graphQLError = (errors: any[], status: number): GitHubApiError => {
+        const [error] = errors;
+        const message = errors.map((e: any) => e.message).join('; ');
+        switch (error.type) {
+            case 'NOT_FOUND':
+                return new GitHubNotFoundError(message, status, error.type);
+            case 'FORBIDDEN':
+            case 'INSUFFICIENT_SCOPES':
+                return new GitHubAuthError(message, status, error.type);
+            case 'RATE_LIMITED':
+                return new GitHubRateLimitError(message, rateLimit?.resetAt, status, error.type);
+            default:
+                return new GitHubValidationError(message, status, error.type);
+        }
+    }
+
+    const request = async <T = any>(query: string, variables: Record<string, unknown> = {}): Promise<T> => {
+        if (rateLimit && rateLimit.remaining === 0 && rateLimit.resetAt.getTime() > Date.now()) {
+            throw new GitHubRateLimitError(
+                `GitHub API rate limit exhausted until ${rateLimit.resetAt.toLocaleTimeString()}`,
+                rateLimit.resetAt
+            );
+        }
+
+        const idempotent = !MUTATION.test(query);
+
+        for (let attempt = 0; ; attempt++) {
+            let response: Response;
+            try {
+                response = await doFetch(apiUrl, {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'Authorization': `Bearer ${options.auth}`,
+                        'User-Agent': options.userAgent ?? 'obsidian-github-discussions'
+                    },
+                    body: JSON.stringify({ query, variables }),
+                });
+            } catch (error) {
+                // Network failures surface as a rejected fetch
+                if (idempotent && attempt < maxRetries) {
+                    await wait(backoff(attempt));
+                    continue;
+                }
+                throw new GitHubApiError(`Could not reach GitHub: ${error instanceof Error ? error.message : error}`);
+            }
+
+            readRateLimitHeaders(response.headers);
+            const scopeHeader = response.headers.get('x-oauth-scopes');
+            if (scopeHeader !== null) {
+                scopes = scopeHeader.split(',').map(scope => scope.trim()).filter(scope => scope !== '');
+            }
+
+            if (response.status === 401) {
+                throw new GitHubAuthError('GitHub rejected the token (401 Bad credentials)', response.status);
+            }
+
+            if (response.status === 403 || response.status === 429) {
+                const retryAfter = response.headers.get('retry-after');
+                const text = await response.text();
+
+                // Primary rate limit: nothing to do but wait for the reset
+                if (response.headers.get('x-ratelimit-remaining') === '0' && retryAfter === null) {
+                    throw new GitHubRateLimitError(
+                        `GitHub API rate limit exceeded, resets at ${rateLimit?.resetAt.toLocaleTimeString()}`,
+                        rateLimit?.resetAt,
+                        response.status
+                    );
+                }
+
+                // Secondary rate limit: honour retry-after, otherwise back off
+                if (retryAfter !== null || /secondary rate limit|abuse/i.test(text)) {
+                    const delay = retryAfter !== null ? Number(retryAfter) * 1000 : Math.max(backoff(attempt), 60000);
+                    // Only retry-after promises that nothing ran
+                    if ((idempotent || retryAfter !== null) && attempt < maxRetries && delay <= maxRetryDelay) {
+                        await wait(delay);
+                        continue;
+                    }
+                    throw new GitHubRateLimitError(
+                        'GitHub secondary rate limit hit, try again in a few minutes',
+                        new Date(Date.now() + delay),
+                        response.status
+                    );
+                }
+
+                throw new GitHubAuthError(`GitHub refused the request (${response.status}): ${text}`, response.status);
+            }
+
+            if (response.status === 404) {
+                throw new GitHubNotFoundError(`GitHub API endpoint not found: ${apiUrl}`, response.status);
+            }
+
+            if (response.status >= 500) {
+                if (idempotent && attempt < maxRetries) {
+                    await wait(backoff(attempt));
+                    continue;
+                }
+                throw new GitHubApiError(idempotent
+                    ? `GitHub API error (${response.status}) after ${attempt + 1} attempts`
+                    : `GitHub API error (${response.status}); the change may or may not have been made, check GitHub before trying again`, response.status);
+            }
+
+            if (!response.ok) {
+                throw new GitHubApiError(`GitHub API error (${response.status}): ${await response.text()}`, response.status);
+            }
+
+            const result = await response.json();
+            readRateLimitData(result.data);
+
+            if (result.errors?.length) {
+                throw graphQLError(result.errors, response.status);
+            }
+            if (!result.data) {
+                throw new GitHubApiError('GitHub API returned no data', response.status);
+            }
+
+            return result.data as T;
+        }
+    }
+
+    return {
+        request,
+        rateLimit: () => rateLimit,
+        scopes: () => scopes
+    }
+}
@@ -3,7 +3,9 @@ export type GitHubDiscussionsLoaderOptions = GitHubClientOptions & {
 }
 
 export type GitHubClientOptions = {
-    auth: string
+    // Either a token to build a transport from, or a transport shared with other callers
+    auth?: string
+    transport?: GitHubTransport
     repo: GitHubRepository
     mappings?: GitHubMappings
 }
@@ -16,8 +18,12 @@ export type GitHubRepository = {
 export type GitHubMappings = {
     blogPostCategory?: string
     draftLabel?: string
+    // Fetch discussions carrying the draft label too instead of leaving them out
+    includeDrafts?: boolean
     tagLabelPrefix: string
     seriesLabelPrefix: string
+    // Normalized tag to the tag it stands for, e.g. `ts` to `typescript`
+    tagAliases?: Record<string, string>
 }
 
 export type GitHubPost = Record<string, unknown> & {
@@ -26,13 +32,19 @@ export type GitHubPost = Record<string, unknown> & {
     body: string
     created: Date
     updated: Date
+    closed: boolean
+    locked: boolean
     category: GitHubCategory
+    labels: string[]
+    draft: boolean
     tags: string[]
     series?: GitHubSeries
     author: GitHubActor
     githubUrl: string
     githubDiscussionId: string
     githubDiscussionNumber: number
+    // Hash of the comment count and the state of the newest comments and replies
+    commentsFingerprint: string
 }
 
 export type GitHubPostList = {
@@ -53,7 +65,9 @@ export type GitHubCategory = {
 
 export type GitHubSeries = {
     id: string
+    // Display name, from the series label's description
     name: string
+    description?: string
 }
 
 export type GitHubActor = {
@@ -62,6 +76,63 @@ export type GitHubActor = {
     url: string
 }
 
+export type GitHubReaction = {
+    // GitHub's reaction name, e.g. THUMBS_UP or HEART
+    content: string
+    count: number
+}
+
+export type GitHubComment = {
+    id: string
+    url: string
+    body: string
+    created: Date
+    // Undefined for deleted accounts
+    author?: GitHubActor
+    isAnswer: boolean
+    // Hidden on GitHub, e.g. as spam
+    minimized: boolean
+    // What the token's user may do with the comment
+    canMarkAsAnswer: boolean
+    canMinimize: boolean
+    reactions: GitHubReaction[]
+    replies: GitHubComment[]
+}
+
+export type CommentActions = {
+    // Without `replyTo` a new top-level comment is added
+    reply: (replyTo?: GitHubComment) => void
+    markAsAnswer: (comment: GitHubComment) => void
+    hide: (comment: GitHubComment) => void
+    lock: () => void
+}
+
+// One post in the dashboard, from the vault, GitHub or both
+export type DashboardRow = {
+    key: string
+    // Name of the profile the post belongs to
+    profile: string
+    slug: string
+    title: string
+    status: SyncStatus
+    // Vault path of the note, when there is one
+    path?: string
+    localModified?: Date
+    remoteUpdated?: Date
+    tags: string[]
+    series?: string
+    discussionNumber?: number
+    url?: string
+}
+
+export type DashboardActions = {
+    load: () => Promise<DashboardRow[]>
+    upload: (row: DashboardRow) => void
+    download: (row: DashboardRow) => void
+    openNote: (row: DashboardRow) => void
+    openDiscussion: (row: DashboardRow) => void
+}
+
 export type Category = GitHubCategory
 export type Series = GitHubSeries
 export type Actor = GitHubActor
@@ -74,3 +145,215 @@ export type Post = GitHubPost & {
     series?: Series
     author: Actor
 }
+
+export type SyncStatus =
+    | 'unchanged'
+    | 'local-changed'
+    | 'remote-changed'
+    | 'conflict'
+    | 'local-only'
+    | 'remote-only'
+    // Synced before, then deleted on the named side
+    | 'local-deleted'
+    | 'remote-deleted'
+
+export type SyncRecord = {
+    hash: string
+    remoteUpdated: string
+    localMtime: number
+    // Comment count and newest comment of the discussion when its comments were last downloaded
+    comments?: string
+}
+
+// Keyed by discussion ID, or by slug for posts that are not on GitHub yet
+export type SyncState = Record<string, SyncRecord>
+
+export type LocalSnapshot = {
+    hash: string
+    mtime: number
+}
+
+export type RemoteSnapshot = {
+    updated: Date
+}
+
+export type DiffOp = {
+    type: 'equal' | 'added' | 'removed'
+    text: string
+}
+
+export type DiffRow = {
+    type: 'equal' | 'changed' | 'added' | 'removed' | 'skip'
+    left?: string
+    right?: string
+    skipped?: number
+}
+
+export type FieldDiff = {
+    field: string
+    local: string
+    remote: string
+    changed: boolean
+}
+
+export type ReviewItem<T> = {
+    title: string
+    action: string
+    conflict: boolean
+    // Removes a note or discussion, or closes or locks one
+    destructive: boolean
+    fields: FieldDiff[]
+    body: DiffRow[]
+    target: T
+}
+
+export type GitHubRateLimit = {
+    limit: number
+    remaining: number
+    used?: number
+    cost?: number
+    resetAt: Date
+}
+
+export type GitHubTransportOptions = {
+    auth: string
+    apiUrl?: string
+    userAgent?: string
+    // Attempts after the first one for 5xx responses, network failures and secondary rate limits.
+    // Mutations are only retried after a secondary rate limit with retry-after
+    maxRetries?: number
+    // Longest single wait, in milliseconds, before giving up with a rate limit error
+    maxRetryDelay?: number
+    fetch?: typeof fetch
+    sleep?: (ms: number) => Promise<void>
+}
+
+export type GitHubTransport = {
+    request: <T = any>(query: string, variables?: Record<string, unknown>) => Promise<T>
+    rateLimit: () => GitHubRateLimit | undefined
+    // OAuth scopes granted to a classic token; undefined for fine-grained tokens
+    scopes: () => string[] | undefined
+}
+
+export type FrontMatterDocument = {
+    hasFrontMatter: boolean
+    frontMatter: Record<string, any>
+    // YAML between the delimiters, as written
+    yaml: string
+    // Everything after the closing delimiter, byte for byte
+    body: string
+    eol: string
+    // The frontmatter block including both delimiter lines
+    raw: string
+}
+
+export type FieldTarget = 'frontmatter' | 'label' | 'local'
+
+export type FieldMapping = {
+    // Key in the note's frontmatter
+    local: string
+    // Key in the discussion frontmatter, or the label prefix for `label` mappings
+    remote: string
+    target: FieldTarget
+}
+
+export type FieldTransform = {
+    toRemote: (value: any) => any
+    toLocal: (value: any) => any
+}
+
+export type AttachmentUploader = {
+    // Uploads the file (if it is not there already) and returns its public URL
+    upload: (name: string, data: ArrayBuffer) => Promise<string>
+}
+
+export type GitHubContentsUploaderOptions = {
+    auth: string
+    repo: GitHubRepository
+    // Empty for the repository's default branch
+    branch?: string
+    folder: string
+    apiUrl?: string
+    fetch?: typeof fetch
+}
+
+export type AttachmentEmbed = {
+    // The full embed as written, e.g. `![[diagram.png|300]]` or `![alt](x.png)`
+    text: string
+    linkpath: string
+    alt: string
+    width?: string
+}
+
+export type TransformContext = {
+    // Replacement for an embed of another note (`![[Note#Heading]]`), or undefined to keep it
+    embed: (linkpath: string, subpath: string) => string | undefined
+    // URL of the published post a wikilink points at, or undefined when it has none
+    link: (linkpath: string) => string | undefined
+}
+
+export type LocalTransformContext = {
+    // Link text of the note published at `url`, or undefined for any other URL
+    note: (url: string) => string | undefined
+}
+
+export type MarkdownTransform = {
+    id: string
+    name: string
+    description: string
+    // Obsidian Markdown to GitHub Markdown
+    toRemote: (markdown: string, context: TransformContext) => string
+    // GitHub Markdown back to Obsidian Markdown, for transforms that can be undone
+    toLocal?: (markdown: string, context: LocalTransformContext) => string
+}
+
+export type AutoSyncState = 'idle' | 'syncing' | 'error' | 'conflict'
+
+export type SyncLogEntry = {
+    time: Date
+    level: 'info' | 'warning' | 'error'
+    message: string
+}
+
+export type GitHubLabel = {
+    id: string
+    name: string
+    // Hex without the leading #
+    color: string
+    description: string
+}
+
+export type LabelStyle = {
+    prefix: string
+    color: string
+    // `{name}` stands for the label name without the prefix
+    description: string
+}
+
+export type GitHubLabelManagerOptions = {
+    transport: GitHubTransport
+    repo: GitHubRepository
+    // The longest matching prefix styles a label; labels matching none are grey
+    styles: LabelStyle[]
+}
+
+export type LabelManager = {
+    // Every label of the repository, fetched on first use
+    labels: () => Promise<GitHubLabel[]>
+    // IDs of the named labels, creating the missing ones and recolouring the others to their style
+    ensure: (names: string[]) => Promise<Map<string, string>>
+    // Labels starting with one of the prefixes that no discussion, issue or pull request carries
+    unused: (prefixes: string[]) => Promise<GitHubLabel[]>
+    // Sets the description of the named label, creating it when missing
+    describe: (name: string, description: string) => Promise<void>
+    delete: (label: GitHubLabel) => Promise<void>
+}
+
+export type SeriesPart = {
+    // Vault path of the part's note
+    path: string
+    title: string
+    order?: number
+    // Where the part is published, once it is
+    url?: string
+}